@@ -3,6 +3,8 @@ import Link from "next/link";
 import { getCalculationById } from "@/features/calculator/server/loaders";
 import { ResultsTabs } from "@/features/calculator/components/ResultsTabs";
 import { CalculatorInputSchema } from "@/features/calculator/server/schema";
+import { resolveDaysSupply } from "@/features/calculator/utils/quantityMath";
+import { formatDoseAmount } from "@/features/calculator/utils/formatters";
 import type { SerializedCalculation } from "@/features/calculator/types";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -28,7 +30,47 @@ export default async function HistoryDetailPage({ params }: Props) {
     : null;
   const originalSig = input?.success ? input.data.sig : undefined;
   const drugOrNdc = input?.success ? input.data.drugOrNdc : undefined;
-  const daysSupply = input?.success ? input.data.daysSupply : undefined;
+  const enteredDaysSupply = input?.success ? input.data.daysSupply : undefined;
+  const durationSource = input?.success ? input.data.durationSource : undefined;
+  const topicalRegions = input?.success ? input.data.topicalRegions : undefined;
+  const measuringDevice = input?.success ? input.data.measuringDevice : undefined;
+  const roundingMode = input?.success ? input.data.roundingMode : undefined;
+  // Patient fields carried into the recalculation link
+  const patientParams = input?.success
+    ? [
+        input.data.patientWeight !== undefined &&
+          `&weight=${input.data.patientWeight}`,
+        input.data.patientWeightUnit && `&weightUnit=${input.data.patientWeightUnit}`,
+        input.data.patientAgeYears !== undefined &&
+          `&age=${input.data.patientAgeYears}`,
+      ]
+        .filter(Boolean)
+        .join("")
+    : "";
+  // Reverse mode stores the prescribed quantity and calculates the days supply
+  const isReverse = calculation.calculationType === "daysSupply";
+  const dispenseQuantity = input?.success ? input.data.dispenseQuantity : undefined;
+  const dispenseQuantityUnit = input?.success ? input.data.dispenseQuantityUnit : undefined;
+  const prescribedQuantity = input?.success ? input.data.prescribedQuantity : undefined;
+  const prescribedQuantityUnit = input?.success ? input.data.prescribedQuantityUnit : undefined;
+  const supplyParams = isReverse
+    ? `&mode=daysSupply&qty=${dispenseQuantity ?? ""}${dispenseQuantityUnit ? `&qtyUnit=${encodeURIComponent(dispenseQuantityUnit)}` : ""}`
+    : `&days=${enteredDaysSupply ?? ""}${prescribedQuantity !== undefined ? `&rxQty=${prescribedQuantity}` : ""}${prescribedQuantityUnit ? `&rxUnit=${encodeURIComponent(prescribedQuantityUnit)}` : ""}`;
+  // Quantity on the claim: whole non-breakable packages, otherwise the calculated quantity
+  const claimQuantityValue =
+    calculation.dispenseQuantityValue ?? calculation.quantityValue;
+  // Days supply used for the quantity (the SIG duration when the user chose it)
+  const daysSupply = isReverse
+    ? calculation.daysSupplyValue
+      ? Number.parseFloat(calculation.daysSupplyValue)
+      : undefined
+    : enteredDaysSupply !== undefined
+      ? resolveDaysSupply(
+          calculation.normalizedJson,
+          enteredDaysSupply,
+          durationSource,
+        )
+      : undefined;
 
   // Extract selected NDC, candidates, and warnings
   const selectedNdc = calculation.selectedNdcJson;
@@ -59,23 +101,44 @@ export default async function HistoryDetailPage({ params }: Props) {
           <Card className="bg-primary/5 border-primary/20 shadow-md">
             <CardHeader>
               <CardTitle className="text-lg font-medium text-muted-foreground">
-                Quantity to Dispense
+                {isReverse ? "Calculated Days Supply" : "Quantity to Dispense"}
               </CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="flex items-baseline gap-2">
-                <span className="text-5xl font-bold tracking-tight">
-                  {calculation.quantityValue ? Number.parseFloat(calculation.quantityValue).toFixed(0) : "--"}
-                </span>
-                <span className="text-xl font-medium text-muted-foreground">
-                  {calculation.quantityUnit ?? "units"}
-                </span>
-              </div>
+              {isReverse ? (
+                <div className="flex items-baseline gap-2">
+                  <span className="text-5xl font-bold tracking-tight">
+                    {daysSupply ?? "--"}
+                  </span>
+                  <span className="text-xl font-medium text-muted-foreground">
+                    days
+                  </span>
+                </div>
+              ) : (
+                <div className="flex items-baseline gap-2">
+                  <span className="text-5xl font-bold tracking-tight">
+                    {claimQuantityValue ? formatDoseAmount(Number.parseFloat(claimQuantityValue)) : "--"}
+                  </span>
+                  <span className="text-xl font-medium text-muted-foreground">
+                    {calculation.quantityUnit ?? "units"}
+                  </span>
+                </div>
+              )}
+              {/* Whole non-breakable packages change the days supply on the claim */}
+              {!isReverse && calculation.daysSupplyValue && (
+                <p className="mt-2 text-sm text-muted-foreground">
+                  {calculation.quantityValue &&
+                    `Calculated ${formatDoseAmount(Number.parseFloat(calculation.quantityValue))} ${calculation.quantityUnit ?? "units"}; `}
+                  whole packages cover{" "}
+                  {Number.parseFloat(calculation.daysSupplyValue)} days; submit
+                  the claim with this days supply
+                </p>
+              )}
               
               {/* Primary Action: Recalculate */}
               <div className="mt-6">
                 <Link 
-                  href={`/calculator?drug=${encodeURIComponent(drugOrNdc ?? "")}&sig=${encodeURIComponent(originalSig ?? "")}&days=${daysSupply ?? ""}`}
+                  href={`/calculator?drug=${encodeURIComponent(drugOrNdc ?? "")}&sig=${encodeURIComponent(originalSig ?? "")}${supplyParams}${durationSource ? `&durationSource=${durationSource}` : ""}${topicalRegions?.length ? `&areas=${topicalRegions.join(",")}` : ""}${patientParams}${measuringDevice ? `&device=${measuringDevice}` : ""}${roundingMode ? `&rounding=${roundingMode}` : ""}`}
                 >
                   <Button className="w-full gap-2" variant="outline">
                     <RotateCcw className="size-4" />
@@ -100,10 +163,38 @@ export default async function HistoryDetailPage({ params }: Props) {
                 <p className="font-medium text-muted-foreground">SIG</p>
                 <p className="italic">&quot;{originalSig}&quot;</p>
               </div>
-              <div>
-                <p className="font-medium text-muted-foreground">Days Supply</p>
-                <p>{daysSupply} Days</p>
-              </div>
+              {isReverse ? (
+                <div>
+                  <p className="font-medium text-muted-foreground">Quantity Prescribed</p>
+                  <p>
+                    {dispenseQuantity} {dispenseQuantityUnit ?? calculation.quantityUnit ?? "units"}
+                  </p>
+                  {dispenseQuantityUnit && calculation.quantityValue && (
+                    <p className="text-muted-foreground text-xs">
+                      {formatDoseAmount(Number.parseFloat(calculation.quantityValue))}{" "}
+                      {calculation.quantityUnit}
+                    </p>
+                  )}
+                </div>
+              ) : (
+                <div>
+                  <p className="font-medium text-muted-foreground">Days Supply</p>
+                  <p>{enteredDaysSupply} Days</p>
+                  {daysSupply !== enteredDaysSupply && (
+                    <p className="text-muted-foreground text-xs">
+                      Calculated for {daysSupply} days (SIG duration)
+                    </p>
+                  )}
+                </div>
+              )}
+              {!isReverse && prescribedQuantity !== undefined && (
+                <div>
+                  <p className="font-medium text-muted-foreground">Rx Quantity</p>
+                  <p>
+                    {prescribedQuantity} {prescribedQuantityUnit ?? calculation.quantityUnit ?? "units"}
+                  </p>
+                </div>
+              )}
             </CardContent>
           </Card>
         </div>
@@ -131,6 +222,9 @@ export default async function HistoryDetailPage({ params }: Props) {
                 originalSig={originalSig}
                 drugOrNdc={drugOrNdc}
                 daysSupply={daysSupply}
+                measuringDevice={measuringDevice}
+                roundingMode={roundingMode}
+                patientAgeYears={input?.success ? input.data.patientAgeYears : undefined}
                 selectedNdc={selectedNdc}
                 ndcCandidates={ndcCandidates}
                 warnings={warnings}
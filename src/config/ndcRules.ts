@@ -0,0 +1,198 @@
+/**
+ * Form-specific NDC rules.
+ * Product facts the FDA NDC directory does not publish reliably (drops per mL,
+ * actuations and priming sprays per inhaler, insulin priming and discard days,
+ * suspension beyond-use dates, package breakability, labeled net contents for billing),
+ * matched by NDC or product name.
+ */
+
+/**
+ * Drops per mL used when the product has no override.
+ * 20 drops/mL is the conventional estimate for ophthalmic and otic solutions.
+ */
+export const DEFAULT_DROPS_PER_ML = 20;
+
+/**
+ * Drops-per-mL override for a product.
+ * Either ndc (exact 11-digit or hyphenated NDC) or productPattern must be set.
+ */
+export type DropsPerMlRule = {
+  ndc?: string; // Package or product NDC as listed in the NDC directory
+  productPattern?: RegExp; // Matched against the product name
+  dropsPerMl: number;
+};
+
+/**
+ * Known drops-per-mL overrides, checked in order.
+ */
+export const DROPS_PER_ML_RULES: DropsPerMlRule[] = [
+  // Latanoprost 0.005% 2.5 mL bottles deliver about 80 drops
+  { productPattern: /latanoprost/i, dropsPerMl: 32 },
+];
+
+/**
+ * Actuations and priming for a metered-dose inhaler or nasal spray.
+ * actuationsPerUnit is used when the package description does not state actuations
+ * (e.g., "16 g in 1 BOTTLE, SPRAY"); primingActuations are the sprays wasted priming a new unit.
+ */
+export type ActuationRule = {
+  ndc?: string; // Package or product NDC as listed in the NDC directory
+  productPattern?: RegExp; // Matched against the product name
+  actuationsPerUnit: number;
+  primingActuations: number;
+  unitLabel: string; // Dispensed unit (e.g., "inhaler", "bottle")
+};
+
+/**
+ * Known inhaler and nasal spray actuation counts, checked in order (labeled counts for
+ * the most common package size). Only consulted for puff and spray doses.
+ */
+export const ACTUATION_RULES: ActuationRule[] = [
+  {
+    productPattern: /albuterol/i,
+    actuationsPerUnit: 200,
+    primingActuations: 4,
+    unitLabel: "inhaler",
+  },
+  {
+    productPattern: /budesonide.*formoterol/i,
+    actuationsPerUnit: 120,
+    primingActuations: 2,
+    unitLabel: "inhaler",
+  },
+  {
+    productPattern: /fluticasone.*nasal|flonase/i,
+    actuationsPerUnit: 120,
+    primingActuations: 6,
+    unitLabel: "bottle",
+  },
+  {
+    productPattern: /mometasone.*nasal|nasonex/i,
+    actuationsPerUnit: 120,
+    primingActuations: 10,
+    unitLabel: "bottle",
+  },
+];
+
+/**
+ * Units used for the safety (priming) shot before each insulin pen injection.
+ */
+export const INSULIN_PEN_PRIMING_UNITS = 2;
+
+/**
+ * Days an opened insulin pen or vial may be used before it is discarded,
+ * when the product has no override.
+ */
+export const DEFAULT_INSULIN_DISCARD_DAYS = 28;
+
+/**
+ * In-use (after opening) discard override for an insulin product.
+ */
+export type InsulinDiscardRule = {
+  productPattern: RegExp; // Matched against the product name
+  discardDays: number;
+};
+
+/**
+ * Known insulin in-use discard overrides, checked in order.
+ */
+export const INSULIN_DISCARD_RULES: InsulinDiscardRule[] = [
+  { productPattern: /levemir|detemir/i, discardDays: 42 },
+  { productPattern: /tresiba|degludec/i, discardDays: 56 },
+  { productPattern: /toujeo/i, discardDays: 56 },
+];
+
+/**
+ * Beyond-use (discard-after) rule for a reconstituted oral suspension.
+ * Either ndc (exact 11-digit or hyphenated NDC) or productPattern must be set.
+ */
+export type BeyondUseRule = {
+  ndc?: string; // Package or product NDC as listed in the NDC directory
+  productPattern?: RegExp; // Matched against the product name
+  beyondUseDays: number; // Days the suspension may be used after reconstitution
+  storage: "refrigerate" | "room temperature"; // Storage after reconstitution
+};
+
+/**
+ * Known beyond-use dates after reconstitution, checked in order (labeled stability for the
+ * most common manufacturers). Only consulted for powders for oral suspension.
+ */
+export const BEYOND_USE_RULES: BeyondUseRule[] = [
+  {
+    productPattern: /amoxicillin.*clavulan|augmentin/i,
+    beyondUseDays: 10,
+    storage: "refrigerate",
+  },
+  { productPattern: /amoxicillin/i, beyondUseDays: 14, storage: "refrigerate" },
+  { productPattern: /cefdinir/i, beyondUseDays: 10, storage: "room temperature" },
+  { productPattern: /cefuroxime/i, beyondUseDays: 10, storage: "refrigerate" },
+  { productPattern: /cephalexin/i, beyondUseDays: 14, storage: "refrigerate" },
+  { productPattern: /cefprozil/i, beyondUseDays: 14, storage: "refrigerate" },
+  { productPattern: /azithromycin/i, beyondUseDays: 10, storage: "room temperature" },
+  {
+    productPattern: /clarithromycin/i,
+    beyondUseDays: 14,
+    storage: "room temperature",
+  },
+  { productPattern: /penicillin/i, beyondUseDays: 14, storage: "refrigerate" },
+];
+
+/**
+ * Site-specific beyond-use overrides (e.g., a compounded product or a manufacturer with
+ * different stability), checked before BEYOND_USE_RULES. Empty by default.
+ */
+export const LOCAL_BEYOND_USE_RULES: BeyondUseRule[] = [];
+
+/**
+ * Package breakability override for a product: whether part of a package may be dispensed.
+ * Either ndc (exact 11-digit or hyphenated NDC) or productPattern must be set.
+ */
+export type PackageBreakabilityRule = {
+  ndc?: string; // Package or product NDC as listed in the NDC directory
+  productPattern?: RegExp; // Matched against the product name
+  breakable: boolean; // True if the pharmacy may dispense part of a package
+  reason?: string; // Shown with the rounding (e.g., "dispensed in the original container")
+};
+
+/**
+ * Site-specific breakability overrides, checked before the dosage form and package type.
+ * Empty by default.
+ */
+export const LOCAL_PACKAGE_BREAKABILITY_RULES: PackageBreakabilityRule[] = [];
+
+/**
+ * Labeled net contents of one inhaler or spray bottle, for NCPDP billing.
+ * Used when the package description states actuations rather than weight or volume
+ * (e.g., "200 AEROSOL, METERED in 1 INHALER"). Either ndc or productPattern must be set.
+ */
+export type BillingAmountRule = {
+  ndc?: string; // Package or product NDC as listed in the NDC directory
+  productPattern?: RegExp; // Matched against the product name
+  amountPerPackage: number; // Net contents per inhaler or bottle (e.g., 8.5)
+  billingUnit: "GM" | "ML";
+};
+
+/**
+ * Known net contents for brand inhalers and nasal sprays, checked in order.
+ * Generic albuterol is omitted: equivalents of different brands have different fill weights.
+ */
+export const BILLING_AMOUNT_RULES: BillingAmountRule[] = [
+  { productPattern: /proair/i, amountPerPackage: 8.5, billingUnit: "GM" },
+  { productPattern: /ventolin/i, amountPerPackage: 18, billingUnit: "GM" },
+  { productPattern: /proventil/i, amountPerPackage: 6.7, billingUnit: "GM" },
+  {
+    productPattern: /symbicort|budesonide.*formoterol/i,
+    amountPerPackage: 10.2,
+    billingUnit: "GM",
+  },
+  {
+    productPattern: /fluticasone.*nasal|flonase/i,
+    amountPerPackage: 16,
+    billingUnit: "GM",
+  },
+  {
+    productPattern: /mometasone.*nasal|nasonex/i,
+    amountPerPackage: 17,
+    billingUnit: "GM",
+  },
+];
@@ -142,7 +142,10 @@ export function HistoryList({ result }: HistoryListProps) {
 
   const getQuantityDisplay = (calc: Calculation): string => {
     if (calc.quantityValue && calc.quantityUnit) {
-      return `${calc.quantityValue} ${calc.quantityUnit}`;
+      // Reverse mode: show the days supply calculated for the prescribed quantity
+      return calc.calculationType === "daysSupply" && calc.daysSupplyValue
+        ? `${calc.quantityValue} ${calc.quantityUnit} → ${calc.daysSupplyValue} days`
+        : `${calc.dispenseQuantityValue ?? calc.quantityValue} ${calc.quantityUnit}`;
     }
     return "—";
   };
@@ -14,8 +14,14 @@ import {
   FormLabel,
   FormMessage,
 } from "@/components/ui/form";
-import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -26,12 +32,38 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { DrugAutocomplete } from "./DrugAutocomplete";
+import { TopicalAreaField } from "./TopicalAreaField";
+import { PatientFields } from "./PatientFields";
+import { SupplyFields } from "./SupplyFields";
 import { useState, useEffect } from "react";
-import type { NormalizedSig } from "../types";
+import {
+  MeasuringDeviceSchema,
+  RoundingModeSchema,
+  TopicalRegionSchema,
+  type NormalizedSig,
+  type TopicalRegion,
+} from "../types";
+import {
+  formatDose,
+  formatFrequency,
+  formatQuantity,
+  formatSchedule,
+  MEASURING_DEVICE_LABELS,
+  ROUNDING_MODE_LABELS,
+} from "../utils/formatters";
+import { toKilograms } from "../utils/weightDosing";
 import { Badge } from "@/components/ui/badge";
 import { Check, AlertTriangle, Loader2 } from "lucide-react";
 
-function SigPreview({ sig }: { sig: string }) {
+function SigPreview({
+  sig,
+  topicalRegions,
+  patientWeightKg,
+}: {
+  sig: string;
+  topicalRegions?: TopicalRegion[];
+  patientWeightKg?: number;
+}) {
   const [preview, setPreview] = useState<{ normalized: NormalizedSig; isComplete: boolean } | null>(null);
   const [loading, setLoading] = useState(false);
 
@@ -44,7 +76,7 @@ function SigPreview({ sig }: { sig: string }) {
         }
         setLoading(true);
         try {
-          const result = await previewSig(sig);
+          const result = await previewSig(sig, { topicalRegions, patientWeightKg });
           setPreview(result);
         } finally {
           setLoading(false);
@@ -52,7 +84,7 @@ function SigPreview({ sig }: { sig: string }) {
       })();
     }, 500);
     return () => clearTimeout(timer);
-  }, [sig]);
+  }, [sig, topicalRegions, patientWeightKg]);
 
   if (!sig) return null;
 
@@ -67,14 +99,61 @@ function SigPreview({ sig }: { sig: string }) {
                 <span className="mr-1 text-xs font-medium text-muted-foreground">Detected:</span>
                 {preview.normalized.dose !== undefined && preview.normalized.doseUnit && (
                     <Badge variant="secondary" className="bg-background border-primary/20">
-                    {preview.normalized.dose} {preview.normalized.doseUnit}
+                    {formatDose(preview.normalized)} {preview.normalized.doseUnit}
                     </Badge>
                 )}
                 {preview.normalized.frequencyPerDay && (
                     <Badge variant="secondary" className="bg-background border-primary/20">
-                    {preview.normalized.frequencyPerDay}x / day
+                    {preview.normalized.schedule
+                        ? formatSchedule(preview.normalized)
+                        : `${formatFrequency(preview.normalized)}x / day`}
+                    </Badge>
+                )}
+                {preview.normalized.weightBasedDose && (
+                    <Badge variant="secondary" className="bg-background border-primary/20">
+                    {preview.normalized.weightBasedDose.amount} {preview.normalized.weightBasedDose.unit}/kg/{preview.normalized.weightBasedDose.per}
+                    </Badge>
+                )}
+                {preview.normalized.fingertipUnits !== undefined && (
+                    <Badge variant="secondary" className="bg-background border-primary/20">
+                    {formatQuantity(preview.normalized.fingertipUnits)} FTU
+                    </Badge>
+                )}
+                {preview.normalized.steps && (
+                    <Badge variant="secondary" className="bg-background border-primary/20">
+                    {preview.normalized.steps.length} phases
+                    </Badge>
+                )}
+                {preview.normalized.clauses && preview.normalized.totalDailyDose !== undefined && (
+                    <Badge variant="secondary" className="bg-background border-primary/20">
+                    {preview.normalized.clauses.length} clauses, {formatQuantity(preview.normalized.totalDailyDose)} {preview.normalized.doseUnit} / day
+                    </Badge>
+                )}
+                {preview.normalized.durationDays !== undefined && (
+                    <Badge variant="secondary" className="bg-background border-primary/20">
+                    for {formatQuantity(preview.normalized.durationDays)} days
+                    </Badge>
+                )}
+                {preview.normalized.prn && (
+                    <Badge variant="secondary" className="bg-background border-primary/20">
+                    PRN{preview.normalized.prnIndication ? ` ${preview.normalized.prnIndication}` : ""}
+                    </Badge>
+                )}
+                {preview.normalized.slidingScale && (
+                    <Badge variant="secondary" className="bg-background border-primary/20">
+                    sliding scale
+                    </Badge>
+                )}
+                {preview.normalized.maxDailyDose !== undefined && (
+                    <Badge variant="secondary" className="bg-background border-primary/20">
+                    max {preview.normalized.maxDailyDose} {preview.normalized.maxDailyDoseUnit} / day
                     </Badge>
                 )}
+                {preview.normalized.frequencyTokens?.map((token) => (
+                    <Badge key={`${token.token}-${token.text}`} variant="outline" className="bg-background text-xs font-normal">
+                    {token.text} = {token.meaning}
+                    </Badge>
+                ))}
                 {preview.normalized.route && (
                     <Badge variant="secondary" className="bg-background border-primary/20">
                     {preview.normalized.route}
@@ -116,6 +195,24 @@ const EXAMPLE_INPUTS: CalculatorInput[] = [
   },
 ];
 
+/**
+ * SIG wording for creams, ointments, and other skin applications.
+ */
+const TOPICAL_SIG_PATTERN = /\b(?:apply|topical(?:ly)?|cream|ointment|lotion|gel|thin layer)\b/i;
+
+/**
+ * Reads application areas from the "areas" search param (comma-separated region keys).
+ */
+function parseTopicalRegions(value: string | null): TopicalRegion[] | undefined {
+  const regions = (value ?? "")
+    .split(",")
+    .flatMap((area) => {
+      const parsed = TopicalRegionSchema.safeParse(area.trim());
+      return parsed.success ? [parsed.data] : [];
+    });
+  return regions.length > 0 ? regions : undefined;
+}
+
 export function InputForm() {
   const searchParams = useSearchParams();
   const form = useForm<CalculatorInput>({
@@ -125,11 +222,33 @@ export function InputForm() {
       drugOrNdc: searchParams.get("drug") ?? "",
       sig: searchParams.get("sig") ?? "",
       daysSupply: searchParams.get("days") ? Number(searchParams.get("days")) : undefined,
+      calculationType: searchParams.get("mode") === "daysSupply" ? "daysSupply" : undefined,
+      dispenseQuantity: searchParams.get("qty") ? Number(searchParams.get("qty")) : undefined,
+      dispenseQuantityUnit: searchParams.get("qtyUnit") ?? undefined,
+      prescribedQuantity: searchParams.get("rxQty") ? Number(searchParams.get("rxQty")) : undefined,
+      prescribedQuantityUnit: searchParams.get("rxUnit") ?? undefined,
+      durationSource: searchParams.get("durationSource") === "sig" ? "sig" : undefined,
+      topicalRegions: parseTopicalRegions(searchParams.get("areas")),
+      patientWeight: searchParams.get("weight") ? Number(searchParams.get("weight")) : undefined,
+      patientWeightUnit: searchParams.get("weightUnit") === "lb" ? "lb" : undefined,
+      patientAgeYears: searchParams.get("age") ? Number(searchParams.get("age")) : undefined,
+      measuringDevice: MeasuringDeviceSchema.safeParse(searchParams.get("device")).data,
+      roundingMode: RoundingModeSchema.safeParse(searchParams.get("rounding")).data,
     },
   });
 
   const { isSubmitting, isValid } = form.formState;
   const sigValue = form.watch("sig");
+  const topicalRegions = form.watch("topicalRegions");
+  // Offer the application area for creams and ointments, or once an area is chosen
+  const showTopicalArea =
+    TOPICAL_SIG_PATTERN.test(sigValue) || (topicalRegions?.length ?? 0) > 0;
+  const patientWeight = form.watch("patientWeight");
+  const patientWeightUnit = form.watch("patientWeightUnit");
+  const patientWeightKg =
+    patientWeight !== undefined && patientWeight > 0
+      ? toKilograms(patientWeight, patientWeightUnit ?? "kg")
+      : undefined;
 
   const handleSubmit = form.handleSubmit(async (data) => {
     try {
@@ -148,12 +267,25 @@ export function InputForm() {
       drugOrNdc: "",
       sig: "",
       daysSupply: undefined,
+      calculationType: undefined,
+      dispenseQuantity: undefined,
+      dispenseQuantityUnit: undefined,
+      prescribedQuantity: undefined,
+      prescribedQuantityUnit: undefined,
+      durationSource: undefined,
+      topicalRegions: undefined,
+      patientWeight: undefined,
+      patientWeightUnit: undefined,
+      patientAgeYears: undefined,
+      measuringDevice: undefined,
+      roundingMode: undefined,
     });
   };
 
   const handleExampleClick = (example: CalculatorInput) => {
     form.setValue("drugOrNdc", example.drugOrNdc);
     form.setValue("sig", example.sig);
+    form.setValue("calculationType", undefined);
     form.setValue("daysSupply", example.daysSupply);
     void form.trigger(); // Trigger validation after setting values
   };
@@ -206,7 +338,11 @@ export function InputForm() {
                         {...field}
                       />
                     </FormControl>
-                    <SigPreview sig={sigValue} />
+                    <SigPreview
+                      sig={sigValue}
+                      topicalRegions={topicalRegions}
+                      patientWeightKg={patientWeightKg}
+                    />
                     <FormDescription>
                       Enter the prescription instructions (SIG) as written
                     </FormDescription>
@@ -215,28 +351,67 @@ export function InputForm() {
                 )}
               />
 
+              {showTopicalArea && <TopicalAreaField control={form.control} />}
+
+              <PatientFields control={form.control} />
+
+              <SupplyFields control={form.control} />
+
               <FormField
                 control={form.control}
-                name="daysSupply"
+                name="measuringDevice"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Days Supply</FormLabel>
-                    <FormControl>
-                      <Input
-                        type="number"
-                        placeholder="e.g., 30"
-                        min={1}
-                        max={365}
-                        {...field}
-                        onChange={(e) => {
-                          const value = e.target.value;
-                          field.onChange(value === "" ? undefined : Number(value));
-                        }}
-                        value={field.value ?? ""}
-                      />
-                    </FormControl>
+                    <FormLabel>Liquid Measuring Device</FormLabel>
+                    <Select
+                      value={field.value ?? "oral_syringe"}
+                      onValueChange={field.onChange}
+                    >
+                      <FormControl>
+                        <SelectTrigger className="w-full">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="oral_syringe">{MEASURING_DEVICE_LABELS.oral_syringe} (0.1 mL)</SelectItem>
+                        <SelectItem value="large_oral_syringe">{MEASURING_DEVICE_LABELS.large_oral_syringe} (0.5 mL)</SelectItem>
+                        <SelectItem value="dosing_cup">{MEASURING_DEVICE_LABELS.dosing_cup} (2.5 mL)</SelectItem>
+                        <SelectItem value="none">{MEASURING_DEVICE_LABELS.none}</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>
+                      Oral liquid doses are rounded to a volume this device can measure
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="roundingMode"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Quantity Rounding</FormLabel>
+                    <Select
+                      value={field.value ?? "half_up"}
+                      onValueChange={field.onChange}
+                    >
+                      <FormControl>
+                        <SelectTrigger className="w-full">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {RoundingModeSchema.options.map((mode) => (
+                          <SelectItem key={mode} value={mode}>
+                            {ROUNDING_MODE_LABELS[mode]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
                     <FormDescription>
-                      Number of days the prescription should last (1-365)
+                      How the final quantity is rounded to three decimal places
                     </FormDescription>
                     <FormMessage />
                   </FormItem>
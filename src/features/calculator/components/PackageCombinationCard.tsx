@@ -0,0 +1,133 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Boxes } from "lucide-react";
+import {
+  PackagePolicySchema,
+  type NdcCandidate,
+  type PackagePolicy,
+} from "../types";
+import { optimizePackageCombination } from "../utils/packageOptimizer";
+import { formatQuantity, PACKAGE_POLICY_LABELS } from "../utils/formatters";
+
+type PackageCombinationCardProps = {
+  quantityValue: string | null;
+  quantityUnit: string | null;
+  selectedNdc: NdcCandidate;
+  ndcCandidates: NdcCandidate[] | null;
+};
+
+/**
+ * Recommended package combination for the dispense quantity, across the package sizes
+ * of the selected product and strength, with a selectable policy.
+ */
+export function PackageCombinationCard({
+  quantityValue,
+  quantityUnit,
+  selectedNdc,
+  ndcCandidates,
+}: PackageCombinationCardProps) {
+  const [policy, setPolicy] = useState<PackagePolicy>("never_short");
+
+  const quantity = quantityValue ? Number.parseFloat(quantityValue) : Number.NaN;
+  // The search covers every total up to the quantity, so rerun it only when an input changes
+  const result = useMemo(
+    () =>
+      quantityUnit && quantity > 0
+        ? optimizePackageCombination(
+            quantity,
+            quantityUnit,
+            selectedNdc,
+            ndcCandidates ?? [],
+            policy,
+          )
+        : null,
+    [quantity, quantityUnit, selectedNdc, ndcCandidates, policy],
+  );
+  if (!quantityUnit || !result) {
+    return null;
+  }
+
+  const { combination, failure } = result;
+
+  return (
+    <div className="space-y-3 rounded-lg border bg-primary/5 p-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Boxes className="size-5" />
+          <h3 className="text-base font-semibold">Recommended Packages</h3>
+        </div>
+        <Select
+          value={policy}
+          onValueChange={(value) => {
+            const parsed = PackagePolicySchema.safeParse(value);
+            if (parsed.success) {
+              setPolicy(parsed.data);
+            }
+          }}
+        >
+          <SelectTrigger className="w-56">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PackagePolicySchema.options.map((option) => (
+              <SelectItem key={option} value={option}>
+                {PACKAGE_POLICY_LABELS[option]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {combination ? (
+        <>
+          <ul className="space-y-1">
+            {combination.lines.map((line) => (
+              <li
+                key={line.candidate.ndc}
+                className="flex flex-wrap items-center gap-2 text-sm"
+              >
+                <span className="font-semibold">{line.count}</span>
+                <span className="text-muted-foreground">
+                  × {formatQuantity(line.packageSize)} {quantityUnit}
+                </span>
+                <Badge variant="outline" className="font-mono text-xs">
+                  {line.candidate.ndc}
+                </Badge>
+                {!line.candidate.active && (
+                  <Badge variant="destructive" className="text-xs">
+                    Inactive
+                  </Badge>
+                )}
+              </li>
+            ))}
+          </ul>
+          <p className="text-muted-foreground text-xs">
+            {combination.packageCount} package
+            {combination.packageCount === 1 ? "" : "s"},{" "}
+            {formatQuantity(combination.totalQuantity)} {quantityUnit} total
+            {combination.waste > 0
+              ? ` (${formatQuantity(combination.waste)} ${quantityUnit} more than the ${formatQuantity(quantity)} needed)`
+              : " (exact fit)"}
+          </p>
+        </>
+      ) : (
+        <p className="text-muted-foreground text-sm">
+          {failure === "search_limit"
+            ? `${formatQuantity(quantity)} ${quantityUnit} is too large to optimize across package sizes. Dispense using the selected package.`
+            : failure === "no_exact_fit"
+              ? `No combination of the available package sizes adds up to exactly ${formatQuantity(quantity)} ${quantityUnit}.`
+              : `No package sizes in ${quantityUnit} are available for this product and strength.`}
+        </p>
+      )}
+    </div>
+  );
+}
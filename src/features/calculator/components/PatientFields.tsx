@@ -0,0 +1,111 @@
+"use client";
+
+import type { Control } from "react-hook-form";
+import {
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { CalculatorInput } from "../server/schema";
+
+/**
+ * Patient weight (kg or lb) and age inputs.
+ * Weight is required for per-kg SIGs ("10 mg/kg/day divided BID").
+ */
+export function PatientFields({
+  control,
+}: {
+  control: Control<CalculatorInput>;
+}) {
+  return (
+    <div className="grid gap-4 sm:grid-cols-3">
+      <FormField
+        control={control}
+        name="patientWeight"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Patient Weight</FormLabel>
+            <FormControl>
+              <Input
+                type="number"
+                placeholder="e.g., 18"
+                min={0}
+                step="0.1"
+                {...field}
+                onChange={(e) => {
+                  const value = e.target.value;
+                  field.onChange(value === "" ? undefined : Number(value));
+                }}
+                value={field.value ?? ""}
+              />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      <FormField
+        control={control}
+        name="patientWeightUnit"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Weight Unit</FormLabel>
+            <Select value={field.value ?? "kg"} onValueChange={field.onChange}>
+              <FormControl>
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+              </FormControl>
+              <SelectContent>
+                <SelectItem value="kg">kg</SelectItem>
+                <SelectItem value="lb">lb</SelectItem>
+              </SelectContent>
+            </Select>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      <FormField
+        control={control}
+        name="patientAgeYears"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Age (years)</FormLabel>
+            <FormControl>
+              <Input
+                type="number"
+                placeholder="e.g., 4"
+                min={0}
+                max={120}
+                step="0.1"
+                {...field}
+                onChange={(e) => {
+                  const value = e.target.value;
+                  field.onChange(value === "" ? undefined : Number(value));
+                }}
+                value={field.value ?? ""}
+              />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      <p className="text-muted-foreground text-sm sm:col-span-3">
+        Optional. Weight is required for per-kg SIGs (e.g., &quot;10 mg/kg/day
+        divided BID&quot;)
+      </p>
+    </div>
+  );
+}
@@ -9,6 +9,8 @@ import { QuantityPanel } from "./panels/QuantityPanel";
 import { WarningsPanel } from "./panels/WarningsPanel";
 import { JsonPanel } from "./panels/JsonPanel";
 import type {
+  MeasuringDevice,
+  RoundingMode,
   SerializedCalculation,
   NdcCandidate,
   NormalizedSig,
@@ -20,6 +22,9 @@ type ResultsTabsProps = {
   originalSig?: string;
   drugOrNdc?: string;
   daysSupply?: number;
+  patientAgeYears?: number;
+  measuringDevice?: MeasuringDevice;
+  roundingMode?: RoundingMode;
   selectedNdc: NdcCandidate | null;
   ndcCandidates: NdcCandidate[] | null;
   warnings: Warning[] | null;
@@ -35,6 +40,9 @@ export function ResultsTabs({
   originalSig,
   drugOrNdc,
   daysSupply,
+  patientAgeYears,
+  measuringDevice,
+  roundingMode,
   selectedNdc,
   ndcCandidates,
   warnings,
@@ -72,10 +80,12 @@ export function ResultsTabs({
           drugOrNdc={drugOrNdc}
           daysSupply={daysSupply}
           quantityValue={calculation.quantityValue}
+          dispenseQuantityValue={calculation.dispenseQuantityValue}
           quantityUnit={calculation.quantityUnit}
           selectedNdc={selectedNdc}
           aiNotes={calculation.aiNotes}
           ndcCandidates={ndcCandidates}
+          patientAgeYears={patientAgeYears}
         />
       </TabsContent>
 
@@ -83,6 +93,8 @@ export function ResultsTabs({
         <NdcPanel
           selectedNdc={selectedNdc}
           ndcCandidates={ndcCandidates}
+          quantityValue={calculation.quantityValue}
+          quantityUnit={calculation.quantityUnit}
         />
       </TabsContent>
 
@@ -92,7 +104,11 @@ export function ResultsTabs({
           quantityUnit={calculation.quantityUnit}
           normalizedSig={normalizedSig}
           daysSupply={daysSupply}
+          calculationType={calculation.calculationType}
           selectedNdc={selectedNdc}
+          ndcCandidates={ndcCandidates}
+          measuringDevice={measuringDevice}
+          roundingMode={roundingMode}
           warnings={warnings}
         />
       </TabsContent>
@@ -0,0 +1,244 @@
+"use client";
+
+import { useWatch, type Control } from "react-hook-form";
+import {
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { CalculatorInput } from "../server/schema";
+
+/**
+ * Calculation mode with its supply input.
+ * Quantity mode takes the days supply (and which duration drives it) with the optional Rx quantity
+ * to reconcile; reverse mode takes the prescribed quantity ("Disp #90") and calculates the days supply.
+ */
+export function SupplyFields({
+  control,
+}: {
+  control: Control<CalculatorInput>;
+}) {
+  const calculationType = useWatch({ control, name: "calculationType" });
+  const isReverse = calculationType === "daysSupply";
+
+  return (
+    <>
+      <FormField
+        control={control}
+        name="calculationType"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Calculate</FormLabel>
+            <Select
+              value={field.value ?? "quantity"}
+              onValueChange={field.onChange}
+            >
+              <FormControl>
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+              </FormControl>
+              <SelectContent>
+                <SelectItem value="quantity">
+                  Quantity from days supply
+                </SelectItem>
+                <SelectItem value="daysSupply">
+                  Days supply from quantity (e.g., &quot;Disp #90&quot;)
+                </SelectItem>
+              </SelectContent>
+            </Select>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      {isReverse ? (
+        <div className="grid gap-4 sm:grid-cols-2">
+          <FormField
+            control={control}
+            name="dispenseQuantity"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Quantity Prescribed</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    placeholder="e.g., 90"
+                    min={0}
+                    step="any"
+                    {...field}
+                    onChange={(e) => {
+                      const value = e.target.value;
+                      field.onChange(value === "" ? undefined : Number(value));
+                    }}
+                    value={field.value ?? ""}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={control}
+            name="dispenseQuantityUnit"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Quantity Unit</FormLabel>
+                <FormControl>
+                  <Input
+                    placeholder="e.g., tablets, inhaler, mL"
+                    {...field}
+                    onChange={(e) => {
+                      const value = e.target.value;
+                      field.onChange(value === "" ? undefined : value);
+                    }}
+                    value={field.value ?? ""}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <p className="text-muted-foreground text-sm sm:col-span-2">
+            Quantity as written. Without a unit it is read in the dispense unit
+            (tablets, capsules, mL, grams, puffs, or insulin units); packages
+            (&quot;1 inhaler&quot;, &quot;2 pens&quot;) and insulin mL are
+            converted using the selected product
+          </p>
+        </div>
+      ) : (
+        <>
+          <FormField
+            control={control}
+            name="daysSupply"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Days Supply</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    placeholder="e.g., 30"
+                    min={1}
+                    max={365}
+                    {...field}
+                    onChange={(e) => {
+                      const value = e.target.value;
+                      field.onChange(value === "" ? undefined : Number(value));
+                    }}
+                    value={field.value ?? ""}
+                  />
+                </FormControl>
+                <FormDescription>
+                  Number of days the prescription should last (1-365)
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <FormField
+              control={control}
+              name="prescribedQuantity"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Rx Quantity</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      placeholder="e.g., 30"
+                      min={0}
+                      step="any"
+                      {...field}
+                      onChange={(e) => {
+                        const value = e.target.value;
+                        field.onChange(
+                          value === "" ? undefined : Number(value),
+                        );
+                      }}
+                      value={field.value ?? ""}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={control}
+              name="prescribedQuantityUnit"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Rx Quantity Unit</FormLabel>
+                  <FormControl>
+                    <Input
+                      placeholder="e.g., tablets, mL, bottle"
+                      {...field}
+                      onChange={(e) => {
+                        const value = e.target.value;
+                        field.onChange(value === "" ? undefined : value);
+                      }}
+                      value={field.value ?? ""}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <p className="text-muted-foreground text-sm sm:col-span-2">
+              Optional. Quantity written on the prescription, checked against
+              the quantity the SIG implies
+            </p>
+          </div>
+
+          <FormField
+            control={control}
+            name="durationSource"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Duration Source</FormLabel>
+                <Select
+                  value={field.value ?? "daysSupply"}
+                  onValueChange={field.onChange}
+                >
+                  <FormControl>
+                    <SelectTrigger className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value="daysSupply">
+                      Entered days supply
+                    </SelectItem>
+                    <SelectItem value="sig">
+                      SIG duration (e.g., &quot;for 10 days&quot;)
+                    </SelectItem>
+                  </SelectContent>
+                </Select>
+                <FormDescription>
+                  Which duration drives the quantity when the SIG states a
+                  course length
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </>
+      )}
+    </>
+  );
+}
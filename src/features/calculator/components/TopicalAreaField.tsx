@@ -0,0 +1,72 @@
+"use client";
+
+import type { Control } from "react-hook-form";
+import {
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Checkbox } from "@/components/ui/checkbox";
+import type { CalculatorInput } from "../server/schema";
+import type { TopicalRegion } from "../types";
+import { TOPICAL_REGIONS } from "../utils/topical";
+import { formatQuantity } from "../utils/formatters";
+
+const REGION_OPTIONS = Object.entries(TOPICAL_REGIONS) as Array<
+  [TopicalRegion, (typeof TOPICAL_REGIONS)[TopicalRegion]]
+>;
+
+/**
+ * Application area picker for topical creams and ointments.
+ * Selected regions size each application in fingertip units when the SIG does not state an amount.
+ */
+export function TopicalAreaField({
+  control,
+}: {
+  control: Control<CalculatorInput>;
+}) {
+  return (
+    <FormField
+      control={control}
+      name="topicalRegions"
+      render={({ field }) => {
+        const selected = field.value ?? [];
+        const toggle = (region: TopicalRegion, checked: boolean) => {
+          const next = checked
+            ? [...selected, region]
+            : selected.filter((value) => value !== region);
+          field.onChange(next.length > 0 ? next : undefined);
+        };
+
+        return (
+          <FormItem>
+            <FormLabel>Application Area</FormLabel>
+            <div className="grid grid-cols-2 gap-2 sm:grid-cols-3">
+              {REGION_OPTIONS.map(([region, info]) => (
+                <label
+                  key={region}
+                  className="flex items-center gap-2 text-sm"
+                >
+                  <Checkbox
+                    checked={selected.includes(region)}
+                    onCheckedChange={(checked) => toggle(region, checked === true)}
+                  />
+                  {info.label}
+                  <span className="text-xs text-muted-foreground">
+                    {formatQuantity(info.fingertipUnits)} FTU
+                  </span>
+                </label>
+              ))}
+            </div>
+            <FormDescription>
+              For creams and ointments: areas treated at each application (1 fingertip unit ≈ 0.5 g)
+            </FormDescription>
+            <FormMessage />
+          </FormItem>
+        );
+      }}
+    />
+  );
+}
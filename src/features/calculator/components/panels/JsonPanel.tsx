@@ -7,6 +7,7 @@ import { Button } from "@/components/ui/button";
 import { Copy, Check, Download } from "lucide-react";
 import { exportCalculation } from "../../server/actions";
 import type { SerializedCalculation } from "../../types";
+import { getCalculationBilling } from "../../utils/billingUnits";
 
 type JsonPanelProps = {
   calculation: SerializedCalculation;
@@ -37,7 +38,12 @@ export function JsonPanel({ calculation }: JsonPanelProps) {
   const [copied, setCopied] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
 
-  const jsonString = JSON.stringify(calculation, null, 2);
+  // Matches the JSON export, which adds the claim quantity in NCPDP billing units
+  const jsonString = JSON.stringify(
+    { ...calculation, billing: getCalculationBilling(calculation) },
+    null,
+    2,
+  );
 
   const handleCopy = async () => {
     try {
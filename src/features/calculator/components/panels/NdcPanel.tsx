@@ -5,18 +5,38 @@ import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Info, Package } from "lucide-react";
 import type { NdcCandidate } from "../../types";
+import { PackageCombinationCard } from "../PackageCombinationCard";
+import {
+  describePackageHierarchy,
+  parsePackageHierarchy,
+} from "../../utils/packageParser";
 
 type NdcPanelProps = {
   selectedNdc: NdcCandidate | null;
   ndcCandidates: NdcCandidate[] | null;
+  quantityValue?: string | null;
+  quantityUnit?: string | null;
 };
 
 /**
- * NDC panel component that displays selected/recommended NDC and candidate list.
+ * NDC panel component that displays selected/recommended NDC, the recommended package
+ * combination for the quantity, and the candidate list.
  */
-export function NdcPanel({ selectedNdc, ndcCandidates }: NdcPanelProps) {
+export function NdcPanel({
+  selectedNdc,
+  ndcCandidates,
+  quantityValue = null,
+  quantityUnit = null,
+}: NdcPanelProps) {
   const hasSelectedNdc = selectedNdc !== null;
   const hasCandidates = ndcCandidates && ndcCandidates.length > 0;
+  // Nested packaging of the selected NDC (e.g., cartons of blister packs)
+  const selectedHierarchy = selectedNdc
+    ? parsePackageHierarchy(selectedNdc.packageDescription)
+    : null;
+  const packageContents = selectedHierarchy
+    ? describePackageHierarchy(selectedHierarchy)
+    : undefined;
 
   return (
     <Card>
@@ -87,6 +107,11 @@ export function NdcPanel({ selectedNdc, ndcCandidates }: NdcPanelProps) {
                     Package Description
                   </p>
                   <p className="text-sm">{selectedNdc.packageDescription}</p>
+                  {packageContents && (
+                    <p className="text-muted-foreground text-xs">
+                      {packageContents}
+                    </p>
+                  )}
                 </div>
               )}
             </div>
@@ -100,6 +125,16 @@ export function NdcPanel({ selectedNdc, ndcCandidates }: NdcPanelProps) {
           </Alert>
         )}
 
+        {/* Package combination across sizes of the selected product */}
+        {hasSelectedNdc && (
+          <PackageCombinationCard
+            quantityValue={quantityValue}
+            quantityUnit={quantityUnit}
+            selectedNdc={selectedNdc}
+            ndcCandidates={ndcCandidates}
+          />
+        )}
+
         {/* NDC Candidates List */}
         {hasCandidates && (
           <div className="space-y-4">
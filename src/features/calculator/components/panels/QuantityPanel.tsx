@@ -4,15 +4,48 @@ import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { AlertTriangle, Info } from "lucide-react";
-import type { NormalizedSig, NdcCandidate, Warning } from "../../types";
-import { parsePackageSize, calculateMultiPack, type MultiPackResult } from "../../utils/quantityMath";
+import type {
+  CalculationType,
+  MeasuringDevice,
+  RoundingMode,
+  NormalizedSig,
+  NdcCandidate,
+  Warning,
+} from "../../types";
+import {
+  parsePackageSize,
+  calculateMultiPack,
+  calculateQuantity,
+  toDispensableSig,
+  type MultiPackResult,
+} from "../../utils/quantityMath";
+import {
+  formatDose,
+  formatDoseAmount,
+  formatFrequency,
+  formatQuantity,
+  formatSchedule,
+  MEASURING_DEVICE_LABELS,
+} from "../../utils/formatters";
+import { isSigComplete } from "../../utils/sigParser";
+import { calculateDaysSupply } from "../../utils/daysSupply";
+import {
+  GRAMS_PER_FTU,
+  TOPICAL_REGIONS,
+  isTopicalSig,
+  selectTubeSize,
+} from "../../utils/topical";
 
 type QuantityPanelProps = {
   quantityValue: string | null;
   quantityUnit: string | null;
   normalizedSig: NormalizedSig | null;
   daysSupply: number | undefined;
+  calculationType?: CalculationType; // "daysSupply" when the days supply was calculated from the quantity
   selectedNdc: NdcCandidate | null;
+  ndcCandidates: NdcCandidate[] | null;
+  measuringDevice?: MeasuringDevice;
+  roundingMode?: RoundingMode;
   warnings: Warning[] | null;
 };
 
@@ -25,7 +58,11 @@ export function QuantityPanel({
   quantityUnit,
   normalizedSig,
   daysSupply,
+  calculationType,
   selectedNdc,
+  ndcCandidates,
+  measuringDevice,
+  roundingMode,
   warnings,
 }: QuantityPanelProps) {
   // Check for overfill/underfill warnings
@@ -46,17 +83,70 @@ export function QuantityPanel({
       )
     : null;
 
+  // Recompute min/max bounds and phase breakdown from the SIG
+  const quantityDetail =
+    normalizedSig && daysSupply
+      ? calculateQuantity(normalizedSig, daysSupply, {
+          product: selectedNdc,
+          measuringDevice,
+          roundingMode,
+        })
+      : null;
+  const hasRange =
+    quantityDetail !== null &&
+    quantityDetail.minQuantityValue !== quantityDetail.maxQuantityValue;
+  const phases = quantityDetail?.phases;
+  const administrations = quantityDetail?.administrations;
+  const strengthConversion = quantityDetail?.strengthConversion;
+  const dropConversion = quantityDetail?.dropConversion;
+  const containers = quantityDetail?.containers;
+  const doseRounding = quantityDetail?.doseRounding;
+  const beyondUse = quantityDetail?.beyondUse;
+  const packageRounding = quantityDetail?.packageRounding;
+  // Days the quantity covers (one fill when capped by a beyond-use date)
+  const calculationDays = beyondUse?.effectiveDaysSupply ?? daysSupply;
+  // Show the math in dispensable units (tablets rather than mg, mL rather than drops per eye)
+  const breakdownSig = normalizedSig
+    ? toDispensableSig(normalizedSig, selectedNdc, measuringDevice).sig
+    : null;
+
+  // Reverse mode: days supply covered by the prescribed quantity
+  const isReverse = calculationType === "daysSupply";
+  const daysSupplyDetail =
+    isReverse && normalizedSig && quantityValue
+      ? calculateDaysSupply(normalizedSig, Number.parseFloat(quantityValue), {
+          product: selectedNdc,
+          measuringDevice,
+        })
+      : null;
+
+  // Best tube size among the candidates for topical gram quantities
+  const tubeSelection =
+    normalizedSig &&
+    isTopicalSig(normalizedSig) &&
+    quantityValue &&
+    quantityUnit === "g" &&
+    ndcCandidates
+      ? selectTubeSize(
+          Number.parseFloat(quantityValue),
+          selectedNdc,
+          ndcCandidates,
+        )
+      : null;
+
   // Check if calculation is complete
   const hasQuantity = quantityValue !== null && quantityUnit !== null;
   const hasCompleteData =
-    normalizedSig?.dose !== undefined &&
-    normalizedSig?.doseUnit !== undefined &&
-    normalizedSig?.frequencyPerDay !== undefined &&
+    normalizedSig !== null &&
+    isSigComplete(normalizedSig) &&
     daysSupply !== undefined;
+  const usesPrnMax =
+    (normalizedSig?.prn === true || normalizedSig?.slidingScale === true) &&
+    normalizedSig.maxDailyDose !== undefined;
 
   // Format quantity value for display
   const displayQuantity = quantityValue
-    ? Number.parseFloat(quantityValue).toFixed(1).replace(/\.0$/, "")
+    ? formatDoseAmount(Number.parseFloat(quantityValue))
     : null;
 
   return (
@@ -79,7 +169,7 @@ export function QuantityPanel({
         {hasQuantity && (
           <div className="space-y-1">
             <p className="text-muted-foreground text-sm font-medium">
-              Calculated Quantity
+              {isReverse ? "Quantity Prescribed" : "Calculated Quantity"}
             </p>
             <div className="flex items-center gap-2">
               <span className="text-2xl font-bold">{displayQuantity}</span>
@@ -92,31 +182,173 @@ export function QuantityPanel({
           </div>
         )}
 
+        {/* Days supply from the prescribed quantity (reverse mode) */}
+        {daysSupplyDetail && (
+          <div className="space-y-1">
+            <p className="text-muted-foreground text-sm font-medium">
+              Calculated Days Supply
+            </p>
+            <div className="flex items-center gap-2">
+              <span className="text-2xl font-bold">
+                {daysSupplyDetail.daysSupply}
+              </span>
+              <Badge variant="outline" className="text-sm">
+                days
+              </Badge>
+            </div>
+            <p className="text-muted-foreground text-xs">
+              {formatQuantity(daysSupplyDetail.dispenseQuantity)}{" "}
+              {daysSupplyDetail.quantityUnit} ÷{" "}
+              {formatQuantity(daysSupplyDetail.dailyQuantity)}{" "}
+              {daysSupplyDetail.quantityUnit}/day ={" "}
+              {formatQuantity(daysSupplyDetail.exactDaysSupply)} days
+              {daysSupplyDetail.sigDurationDays !== undefined &&
+                ` (SIG course: ${formatQuantity(daysSupplyDetail.sigDurationDays)} days)`}
+              {daysSupplyDetail.beyondUse &&
+                ` (beyond-use date: ${daysSupplyDetail.beyondUse.beyondUseDays} days)`}
+            </p>
+          </div>
+        )}
+
         {/* Math breakdown */}
-        {hasCompleteData && hasQuantity && (
+        {hasCompleteData && hasQuantity && !phases && breakdownSig && (
           <div className="space-y-2 rounded-lg border bg-muted/50 p-4">
             <p className="text-muted-foreground text-xs font-medium">
               Calculation
             </p>
+            {normalizedSig.weightBasedDose &&
+              normalizedSig.patientWeightKg !== undefined &&
+              normalizedSig.dose !== undefined && (
+                <p className="text-muted-foreground text-xs">
+                  {normalizedSig.weightBasedDose.amount}{" "}
+                  {normalizedSig.weightBasedDose.unit}/kg/
+                  {normalizedSig.weightBasedDose.per} ×{" "}
+                  {formatDoseAmount(normalizedSig.patientWeightKg)} kg
+                  {normalizedSig.weightBasedDose.per === "day" &&
+                    ` ÷ ${formatFrequency(normalizedSig)} doses/day`}{" "}
+                  = {formatDoseAmount(normalizedSig.dose)}{" "}
+                  {normalizedSig.doseUnit} per dose
+                </p>
+              )}
+            {strengthConversion && (
+              <p className="text-muted-foreground text-xs">
+                {formatQuantity(strengthConversion.doseAmount)}{" "}
+                {strengthConversion.doseAmountUnit} ÷{" "}
+                {strengthConversion.strength} ={" "}
+                {formatQuantity(strengthConversion.unitsPerDose)}{" "}
+                {strengthConversion.dispenseUnit} per dose
+              </p>
+            )}
+            {doseRounding &&
+              doseRounding.applied &&
+              doseRounding.roundedDose !== doseRounding.theoreticalDose && (
+                <p className="text-muted-foreground text-xs">
+                  {formatDoseAmount(doseRounding.theoreticalDose)} mL rounded to{" "}
+                  {formatDoseAmount(doseRounding.roundedDose)} mL per dose (
+                  {formatDoseAmount(doseRounding.precisionMl)} mL{" "}
+                  {MEASURING_DEVICE_LABELS[doseRounding.device].toLowerCase()}{" "}
+                  increments)
+                </p>
+              )}
+            {doseRounding && !doseRounding.applied && (
+              <p className="text-muted-foreground text-xs">
+                {formatDoseAmount(doseRounding.theoreticalDose)} mL per dose kept as
+                calculated; the{" "}
+                {MEASURING_DEVICE_LABELS[doseRounding.device].toLowerCase()}{" "}
+                cannot measure it in{" "}
+                {formatDoseAmount(doseRounding.precisionMl)} mL increments
+              </p>
+            )}
+            {dropConversion && (
+              <p className="text-muted-foreground text-xs">
+                {normalizedSig.siteMultiplier !== undefined &&
+                normalizedSig.siteMultiplier > 1
+                  ? `${formatDoseAmount(normalizedSig.dose ?? 0)} drop × ${normalizedSig.siteMultiplier} (${normalizedSig.site ?? "sites"}) = `
+                  : ""}
+                {formatQuantity(dropConversion.dropsPerDose)} drops ÷{" "}
+                {dropConversion.dropsPerMl} drops/mL ={" "}
+                {formatDoseAmount(dropConversion.mlPerDose)} mL per dose
+              </p>
+            )}
+            {normalizedSig.fingertipUnits !== undefined && (
+              <p className="text-muted-foreground text-xs">
+                {formatQuantity(normalizedSig.fingertipUnits)} FTU
+                {normalizedSig.topicalRegions &&
+                  ` (${normalizedSig.topicalRegions.map((region) => TOPICAL_REGIONS[region].label.toLowerCase()).join(", ")})`}{" "}
+                × {GRAMS_PER_FTU} g ={" "}
+                {formatDoseAmount(normalizedSig.fingertipUnits * GRAMS_PER_FTU)} g
+                per application
+              </p>
+            )}
             <div className="flex flex-wrap items-center gap-2 text-sm">
-              <span className="font-medium">{normalizedSig.dose}</span>
-              {normalizedSig.doseUnit && (
-                <Badge variant="outline" className="text-xs">
-                  {normalizedSig.doseUnit}
-                </Badge>
+              {administrations !== undefined && breakdownSig ? (
+                <>
+                  <span className="font-medium">{formatDose(breakdownSig)}</span>
+                  {breakdownSig.doseUnit && (
+                    <Badge variant="outline" className="text-xs">
+                      {breakdownSig.doseUnit}
+                    </Badge>
+                  )}
+                  <span className="text-muted-foreground">×</span>
+                  <span className="font-medium">{administrations}</span>
+                  <span className="text-muted-foreground text-xs">
+                    {administrations === 1 ? "dose" : "doses"} (
+                    {formatSchedule(breakdownSig)} over {calculationDays} days)
+                  </span>
+                </>
+              ) : breakdownSig?.totalDailyDose !== undefined ? (
+                <>
+                  <span className="font-medium">
+                    {formatQuantity(breakdownSig.totalDailyDose)}
+                  </span>
+                  {breakdownSig.doseUnit && (
+                    <Badge variant="outline" className="text-xs">
+                      {breakdownSig.doseUnit}
+                    </Badge>
+                  )}
+                  <span className="text-muted-foreground text-xs">
+                    /day ({breakdownSig.clauses?.length ?? 0} clauses)
+                  </span>
+                </>
+              ) : usesPrnMax ? (
+                <>
+                  <span className="font-medium">
+                    {breakdownSig.maxDailyDose}
+                  </span>
+                  <Badge variant="outline" className="text-xs">
+                    {breakdownSig.maxDailyDoseUnit}
+                  </Badge>
+                  <span className="text-muted-foreground text-xs">
+                    /day ({breakdownSig.slidingScale ? "sliding-scale" : "PRN"}{" "}
+                    maximum)
+                  </span>
+                </>
+              ) : (
+                <>
+                  <span className="font-medium">{formatDose(breakdownSig)}</span>
+                  {breakdownSig.doseUnit && (
+                    <Badge variant="outline" className="text-xs">
+                      {breakdownSig.doseUnit}
+                    </Badge>
+                  )}
+                  <span className="text-muted-foreground">×</span>
+                  <span className="font-medium">
+                    {formatFrequency(breakdownSig)}
+                  </span>
+                  <span className="text-muted-foreground text-xs">
+                    {breakdownSig.frequencyPerDay === 1
+                      ? "time/day"
+                      : "times/day"}
+                  </span>
+                </>
+              )}
+              {administrations === undefined && (
+                <>
+                  <span className="text-muted-foreground">×</span>
+                  <span className="font-medium">{calculationDays}</span>
+                  <span className="text-muted-foreground text-xs">days</span>
+                </>
               )}
-              <span className="text-muted-foreground">×</span>
-              <span className="font-medium">
-                {normalizedSig.frequencyPerDay}
-              </span>
-              <span className="text-muted-foreground text-xs">
-                {normalizedSig.frequencyPerDay === 1
-                  ? "time/day"
-                  : "times/day"}
-              </span>
-              <span className="text-muted-foreground">×</span>
-              <span className="font-medium">{daysSupply}</span>
-              <span className="text-muted-foreground text-xs">days</span>
               <span className="text-muted-foreground">=</span>
               <span className="font-bold">{displayQuantity}</span>
               {quantityUnit && (
@@ -128,6 +360,81 @@ export function QuantityPanel({
           </div>
         )}
 
+        {/* Taper/titration phase breakdown */}
+        {phases && hasQuantity && (
+          <div className="space-y-2 rounded-lg border bg-muted/50 p-4">
+            <p className="text-muted-foreground text-xs font-medium">
+              Phase Breakdown
+            </p>
+            <div className="space-y-1">
+              {phases.map((phase, index) => (
+                <div
+                  key={index}
+                  className="flex flex-wrap items-center gap-2 text-sm"
+                >
+                  <Badge variant="secondary" className="text-xs">
+                    Phase {index + 1}
+                  </Badge>
+                  <span className="font-medium">{phase.dose}</span>
+                  <span className="text-muted-foreground text-xs">
+                    {phase.doseUnit}
+                  </span>
+                  <span className="text-muted-foreground">×</span>
+                  <span className="font-medium">{phase.frequencyPerDay}</span>
+                  <span className="text-muted-foreground text-xs">
+                    {phase.frequencyPerDay === 1 ? "time/day" : "times/day"}
+                  </span>
+                  <span className="text-muted-foreground">×</span>
+                  <span className="font-medium">{phase.durationDays}</span>
+                  <span className="text-muted-foreground text-xs">days</span>
+                  <span className="text-muted-foreground">=</span>
+                  <span className="font-medium">
+                    {formatQuantity(phase.quantityValue)}
+                  </span>
+                </div>
+              ))}
+            </div>
+            <p className="text-muted-foreground text-xs">
+              Total: {displayQuantity} {quantityUnit} over{" "}
+              {formatQuantity(quantityDetail.daysSupply)} days
+            </p>
+          </div>
+        )}
+
+        {/* Dose/frequency range */}
+        {hasRange && (
+          <div className="space-y-2 rounded-lg border bg-muted/30 p-4">
+            <p className="text-muted-foreground text-xs font-medium">
+              Quantity Range
+            </p>
+            <div className="grid gap-3 sm:grid-cols-3">
+              <div className="space-y-1">
+                <p className="text-muted-foreground text-xs">Minimum</p>
+                <p className="text-sm font-medium">
+                  {formatQuantity(quantityDetail.minQuantityValue)}{" "}
+                  {quantityDetail.quantityUnit}
+                </p>
+              </div>
+              <div className="space-y-1">
+                <p className="text-muted-foreground text-xs">Maximum</p>
+                <p className="text-sm font-medium">
+                  {formatQuantity(quantityDetail.maxQuantityValue)}{" "}
+                  {quantityDetail.quantityUnit}
+                </p>
+              </div>
+              <div className="space-y-1">
+                <p className="text-muted-foreground text-xs">Dispense</p>
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-bold">{displayQuantity}</span>
+                  <Badge variant="secondary" className="text-xs">
+                    {quantityDetail.rangePolicy} policy
+                  </Badge>
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* Package size comparison */}
         {packageSize && hasQuantity && (
           <div className="space-y-2 rounded-lg border bg-muted/30 p-4">
@@ -150,6 +457,133 @@ export function QuantityPanel({
           </div>
         )}
 
+        {/* Containers needed and how long each lasts */}
+        {containers && hasQuantity && (
+          <div className="space-y-2 rounded-lg border bg-primary/5 p-4">
+            <p className="text-muted-foreground text-xs font-medium">
+              Containers Needed
+            </p>
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-lg font-semibold">{containers.count}</span>
+              <span className="text-sm text-muted-foreground">
+                {containers.containerLabel
+                  ? `${containers.containerLabel}${containers.count === 1 ? "" : "s"} × ${formatQuantity(containers.size)} usable ${containers.unit}s`
+                  : `× ${formatQuantity(containers.size)} ${containers.unit}`}
+              </span>
+            </div>
+            {containers.primingPerContainer !== undefined &&
+              containers.primingPerContainer > 0 && (
+                <p className="text-muted-foreground text-xs">
+                  {containers.labeledSize} labeled actuations −{" "}
+                  {containers.primingPerContainer} priming per{" "}
+                  {containers.containerLabel}
+                </p>
+              )}
+            {quantityDetail?.insulin && (
+              <p className="text-muted-foreground text-xs">
+                U-{quantityDetail.insulin.unitsPerMl} ×{" "}
+                {formatQuantity(quantityDetail.insulin.volumeMl)} mL ={" "}
+                {formatQuantity(quantityDetail.insulin.unitsPerContainer)} units
+                per {quantityDetail.insulin.device}
+                {quantityDetail.insulin.primingUnitsPerDay > 0 &&
+                  `; ${formatQuantity(quantityDetail.insulin.primingUnitsPerInjection)} priming units per injection (${formatQuantity(quantityDetail.insulin.totalUnits)} units total)`}
+                {quantityDetail.insulin.limitedByDiscard &&
+                  `; discarded ${quantityDetail.insulin.discardDays} days after opening`}
+              </p>
+            )}
+            <p className="text-muted-foreground text-xs">
+              Each {containers.containerLabel ?? "container"} lasts about{" "}
+              {formatQuantity(containers.daysPerContainer)} days at the
+              calculated daily use
+              {containers.count > 1 &&
+                `; ${containers.count} cover about ${formatQuantity(containers.count * containers.daysPerContainer)} days`}
+              .
+            </p>
+          </div>
+        )}
+
+        {/* Quantity rounded up to whole non-breakable packages */}
+        {packageRounding && quantityDetail && hasQuantity && !isReverse && (
+          <div className="space-y-2 rounded-lg border bg-muted/30 p-4">
+            <p className="text-muted-foreground text-xs font-medium">
+              Whole Packages
+            </p>
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-sm font-medium">
+                {formatQuantity(quantityDetail.quantityValue)} →{" "}
+                {formatQuantity(packageRounding.roundedQuantity)}{" "}
+                {quantityDetail.quantityUnit}
+              </span>
+              <Badge variant="secondary" className="text-xs">
+                {packageRounding.roundedDaysSupply}-day supply
+              </Badge>
+            </div>
+            <p className="text-muted-foreground text-xs">
+              {packageRounding.packageCount} {packageRounding.packageLabel}
+              {packageRounding.packageCount === 1 ? "" : "s"} ×{" "}
+              {formatQuantity(packageRounding.packageSize)}{" "}
+              {quantityDetail.quantityUnit}; {packageRounding.reason}. Submit
+              the claim with the days supply the whole packages cover.
+            </p>
+          </div>
+        )}
+
+        {/* Beyond-use date split fills */}
+        {beyondUse && hasQuantity && (
+          <div className="space-y-2 rounded-lg border bg-muted/30 p-4">
+            <p className="text-muted-foreground text-xs font-medium">
+              Beyond-Use Date
+            </p>
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-sm font-medium">
+                {beyondUse.fillDays.length} fills
+              </span>
+              {beyondUse.fillDays.map((days, index) => (
+                <Badge key={index} variant="secondary" className="text-xs">
+                  Fill {index + 1}: {formatQuantity(days)} days
+                </Badge>
+              ))}
+            </div>
+            <p className="text-muted-foreground text-xs">
+              Discard {beyondUse.beyondUseDays} days after reconstitution (
+              {beyondUse.storage === "refrigerate"
+                ? "refrigerated"
+                : "room temperature"}
+              ). Quantity covers one {beyondUse.effectiveDaysSupply}-day fill of
+              the requested {formatQuantity(beyondUse.requestedDaysSupply)} days.
+            </p>
+          </div>
+        )}
+
+        {/* Best tube size for topical quantities */}
+        {tubeSelection && hasQuantity && (
+          <div className="space-y-2 rounded-lg border bg-primary/5 p-4">
+            <p className="text-muted-foreground text-xs font-medium">
+              Best Tube Size
+            </p>
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-lg font-semibold">
+                {tubeSelection.tubeCount}
+              </span>
+              <span className="text-sm text-muted-foreground">
+                × {formatQuantity(tubeSelection.tubeGrams)} g{" "}
+                {tubeSelection.tubeLabel}
+                {tubeSelection.tubeCount === 1 ? "" : "s"}
+              </span>
+              <Badge variant="outline" className="text-xs">
+                {tubeSelection.candidate.ndc}
+              </Badge>
+            </div>
+            <p className="text-muted-foreground text-xs">
+              {tubeSelection.wasteGrams > 0
+                ? `${formatQuantity(tubeSelection.wasteGrams)} g more than the calculated quantity`
+                : "Matches the calculated quantity exactly"}
+              {tubeSelection.candidate.packageDescription &&
+                ` (${tubeSelection.candidate.packageDescription})`}
+            </p>
+          </div>
+        )}
+
         {/* Multi-pack information */}
         {multiPack && multiPack.packageCount > 0 && (
           <div className="space-y-2 rounded-lg border bg-primary/5 p-4">
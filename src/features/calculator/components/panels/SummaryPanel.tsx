@@ -17,6 +17,15 @@ import { exportCalculation } from "../../server/actions";
 import type { NormalizedSig, NdcCandidate } from "../../types";
 import { isSigComplete } from "../../utils/sigParser";
 import { parsePackageSize, calculateMultiPack, type MultiPackResult } from "../../utils/quantityMath";
+import {
+  formatDose,
+  formatDoseAmount,
+  formatFrequency,
+  formatQuantity,
+  formatSchedule,
+} from "../../utils/formatters";
+import { calculateBillingQuantity } from "../../utils/billingUnits";
+import { TOPICAL_REGIONS } from "../../utils/topical";
 import { FeedbackForm } from "../FeedbackForm";
 
 type SummaryPanelProps = {
@@ -26,10 +35,12 @@ type SummaryPanelProps = {
   drugOrNdc?: string;
   daysSupply?: number;
   quantityValue?: string | null;
+  dispenseQuantityValue?: string | null; // Whole-package quantity for non-breakable packages
   quantityUnit?: string | null;
   selectedNdc?: NdcCandidate | null;
   aiNotes?: string | null;
   ndcCandidates?: NdcCandidate[] | null;
+  patientAgeYears?: number;
 };
 
 /**
@@ -61,10 +72,12 @@ export function SummaryPanel({
   drugOrNdc,
   daysSupply: _daysSupply,
   quantityValue,
+  dispenseQuantityValue,
   quantityUnit,
   selectedNdc,
   aiNotes,
   ndcCandidates,
+  patientAgeYears,
 }: SummaryPanelProps) {
   const router = useRouter();
   const [isExporting, setIsExporting] = useState(false);
@@ -88,6 +101,17 @@ export function SummaryPanel({
         )
       : null;
 
+  // Claim quantity in NCPDP billing units (EA, ML, GM), billing whole non-breakable packages
+  const claimQuantityValue = dispenseQuantityValue ?? quantityValue;
+  const billing =
+    claimQuantityValue && quantityUnit
+      ? calculateBillingQuantity(
+          Number.parseFloat(claimQuantityValue),
+          quantityUnit,
+          selectedNdc,
+        )
+      : null;
+
   const handleViewAlternatives = () => {
     // Navigate to NDC tab by updating URL
     const url = new URL(window.location.href);
@@ -290,12 +314,30 @@ export function SummaryPanel({
             </div>
             {quantityValue && quantityUnit && (
               <p className="text-muted-foreground text-xs">
-                Total quantity: {Number.parseFloat(quantityValue).toFixed(1).replace(/\.0$/, "")} {quantityUnit}
+                Total quantity: {formatDoseAmount(Number.parseFloat(quantityValue))} {quantityUnit}
               </p>
             )}
           </div>
         )}
 
+        {/* Claim quantity in NCPDP billing units */}
+        {billing && (
+          <div className="space-y-1">
+            <p className="text-muted-foreground text-sm font-medium">
+              Billing Quantity
+            </p>
+            <div className="flex items-center gap-2">
+              <span className="text-sm font-semibold">
+                {formatDoseAmount(billing.billingQuantity)}
+              </span>
+              <Badge variant="outline" className="font-mono text-xs">
+                {billing.billingUnit}
+              </Badge>
+            </div>
+            <p className="text-muted-foreground text-xs">{billing.basis}</p>
+          </div>
+        )}
+
         {/* Parsed values */}
         {normalizedSig && (
           <div className="space-y-3">
@@ -309,7 +351,7 @@ export function SummaryPanel({
                 {normalizedSig.dose !== undefined ? (
                   <div className="flex items-center gap-2">
                     <span className="text-sm font-medium">
-                      {normalizedSig.dose}
+                      {formatDose(normalizedSig)}
                     </span>
                     {normalizedSig.doseUnit && (
                       <Badge variant="outline" className="text-xs">
@@ -332,7 +374,7 @@ export function SummaryPanel({
                 {normalizedSig.frequencyPerDay !== undefined ? (
                   <div className="flex items-center gap-2">
                     <span className="text-sm font-medium">
-                      {normalizedSig.frequencyPerDay}
+                      {formatFrequency(normalizedSig)}
                     </span>
                     <span className="text-muted-foreground text-xs">
                       {normalizedSig.frequencyPerDay === 1
@@ -347,6 +389,99 @@ export function SummaryPanel({
                 )}
               </div>
 
+              {/* Non-daily schedule */}
+              {normalizedSig.schedule && (
+                <div className="space-y-1">
+                  <p className="text-muted-foreground text-xs">Schedule</p>
+                  <Badge variant="secondary" className="text-xs">
+                    {formatSchedule(normalizedSig)}
+                  </Badge>
+                </div>
+              )}
+
+              {/* PRN */}
+              {normalizedSig.prn && (
+                <div className="space-y-1">
+                  <p className="text-muted-foreground text-xs">As Needed (PRN)</p>
+                  <div className="flex items-center gap-2">
+                    <Badge variant="secondary" className="text-xs">
+                      PRN
+                    </Badge>
+                    {normalizedSig.prnIndication && (
+                      <span className="text-sm">
+                        for {normalizedSig.prnIndication}
+                      </span>
+                    )}
+                  </div>
+                </div>
+              )}
+
+              {/* Sliding scale */}
+              {normalizedSig.slidingScale && (
+                <div className="space-y-1">
+                  <p className="text-muted-foreground text-xs">Sliding Scale</p>
+                  <Badge variant="secondary" className="text-xs">
+                    {normalizedSig.maxDailyDose !== undefined
+                      ? "dosed to daily maximum"
+                      : "daily maximum required"}
+                  </Badge>
+                </div>
+              )}
+
+              {/* Weight-based dose */}
+              {normalizedSig.weightBasedDose && (
+                <div className="space-y-1">
+                  <p className="text-muted-foreground text-xs">Weight-Based Dose</p>
+                  <div className="flex items-center gap-2">
+                    <Badge variant="secondary" className="text-xs">
+                      {normalizedSig.weightBasedDose.amount}{" "}
+                      {normalizedSig.weightBasedDose.unit}/kg/
+                      {normalizedSig.weightBasedDose.per}
+                    </Badge>
+                    <span className="text-muted-foreground text-xs">
+                      {normalizedSig.patientWeightKg !== undefined
+                        ? `× ${formatQuantity(normalizedSig.patientWeightKg)} kg`
+                        : "patient weight required"}
+                    </span>
+                  </div>
+                </div>
+              )}
+
+              {/* Patient */}
+              {(normalizedSig.patientWeightKg !== undefined ||
+                patientAgeYears !== undefined) && (
+                <div className="space-y-1">
+                  <p className="text-muted-foreground text-xs">Patient</p>
+                  <p className="text-sm">
+                    {[
+                      normalizedSig.patientWeightKg !== undefined &&
+                        `${formatQuantity(normalizedSig.patientWeightKg)} kg`,
+                      patientAgeYears !== undefined &&
+                        `${formatQuantity(patientAgeYears)} years`,
+                    ]
+                      .filter(Boolean)
+                      .join(", ")}
+                  </p>
+                </div>
+              )}
+
+              {/* Daily maximum */}
+              {normalizedSig.maxDailyDose !== undefined && (
+                <div className="space-y-1">
+                  <p className="text-muted-foreground text-xs">Max Per Day</p>
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium">
+                      {normalizedSig.maxDailyDose}
+                    </span>
+                    {normalizedSig.maxDailyDoseUnit && (
+                      <Badge variant="outline" className="text-xs">
+                        {normalizedSig.maxDailyDoseUnit}
+                      </Badge>
+                    )}
+                  </div>
+                </div>
+              )}
+
               {/* Route */}
               <div className="space-y-1">
                 <p className="text-muted-foreground text-xs">Route</p>
@@ -361,6 +496,41 @@ export function SummaryPanel({
                 )}
               </div>
 
+              {/* Administration site */}
+              {normalizedSig.site && (
+                <div className="space-y-1">
+                  <p className="text-muted-foreground text-xs">Site</p>
+                  <div className="flex items-center gap-2">
+                    <Badge variant="secondary" className="text-xs">
+                      {normalizedSig.site}
+                    </Badge>
+                    {normalizedSig.siteMultiplier !== undefined &&
+                      normalizedSig.siteMultiplier > 1 && (
+                        <span className="text-muted-foreground text-xs">
+                          dose × {normalizedSig.siteMultiplier}
+                        </span>
+                      )}
+                  </div>
+                </div>
+              )}
+
+              {/* Topical application area */}
+              {normalizedSig.fingertipUnits !== undefined && (
+                <div className="space-y-1">
+                  <p className="text-muted-foreground text-xs">Application Area</p>
+                  <div className="flex flex-wrap items-center gap-2">
+                    {normalizedSig.topicalRegions?.map((region) => (
+                      <Badge key={region} variant="secondary" className="text-xs">
+                        {TOPICAL_REGIONS[region].label}
+                      </Badge>
+                    ))}
+                    <span className="text-muted-foreground text-xs">
+                      {formatQuantity(normalizedSig.fingertipUnits)} FTU per application
+                    </span>
+                  </div>
+                </div>
+              )}
+
               {/* RxCUI */}
               <div className="space-y-1">
                 <p className="text-muted-foreground text-xs">RxCUI</p>
@@ -378,6 +548,60 @@ export function SummaryPanel({
           </div>
         )}
 
+        {/* Compound SIG clauses */}
+        {normalizedSig?.clauses && normalizedSig.clauses.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-muted-foreground text-sm font-medium">
+              Administration Clauses
+            </p>
+            <div className="space-y-1 rounded-lg border bg-muted/50 p-3">
+              {normalizedSig.clauses.map((clause, index) => (
+                <div
+                  key={index}
+                  className="flex flex-wrap items-center gap-2 text-sm"
+                >
+                  <Badge variant="secondary" className="text-xs">
+                    {index + 1}
+                  </Badge>
+                  <span className="italic">{clause.text}</span>
+                  <span className="text-muted-foreground text-xs">
+                    {clause.dose} {clause.doseUnit} × {clause.frequencyPerDay}
+                    /day = {formatQuantity(clause.dose * clause.frequencyPerDay)}{" "}
+                    {clause.doseUnit}/day
+                  </span>
+                </div>
+              ))}
+              {normalizedSig.totalDailyDose !== undefined && (
+                <p className="pt-1 text-sm font-medium">
+                  Total: {formatQuantity(normalizedSig.totalDailyDose)}{" "}
+                  {normalizedSig.doseUnit} per day
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Recognized abbreviations */}
+        {normalizedSig?.frequencyTokens && normalizedSig.frequencyTokens.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-muted-foreground text-sm font-medium">
+              Abbreviations
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {normalizedSig.frequencyTokens.map((token) => (
+                <Badge
+                  key={`${token.token}-${token.text}`}
+                  variant="outline"
+                  className="text-xs font-normal"
+                >
+                  <span className="font-mono">{token.text}</span>
+                  <span className="text-muted-foreground">= {token.meaning}</span>
+                </Badge>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Warning for partial parse */}
         {hasPartialData && (
           <Alert variant="default">
@@ -9,7 +9,13 @@ import { recordFeedback } from "@/lib/analytics";
 import { auth } from "@/server/auth";
 import { logModification, logExport } from "@/lib/audit";
 import type { Calculation, NormalizedSig } from "../types";
-import { parseSig, isSigComplete } from "../utils/sigParser";
+import {
+  parseSig,
+  isSigComplete,
+  type ParseSigOptions,
+} from "../utils/sigParser";
+import { getCalculationBilling } from "../utils/billingUnits";
+import { formatSchedule } from "../utils/formatters";
 import { searchDrugs as searchRxNormDrugs } from "./services/rxnorm";
 
 /**
@@ -32,6 +38,7 @@ export async function createCalculation(
     .values({
       status: "pending",
       inputJson: validatedInput,
+      calculationType: validatedInput.calculationType ?? "quantity",
       userId,
     })
     .returning({ id: calculations.id });
@@ -93,6 +100,7 @@ function serializeCalculationToCsv(calculation: Calculation): string {
   const normalized = calculation.normalizedJson;
   const selectedNdc = calculation.selectedNdcJson;
   const warnings = calculation.warningsJson;
+  const billing = getCalculationBilling(calculation);
 
   // Build CSV row
   const fields: string[] = [
@@ -103,7 +111,26 @@ function serializeCalculationToCsv(calculation: Calculation): string {
     // Input fields
     escapeCsvField(input?.success ? input.data.sig : null),
     escapeCsvField(input?.success ? input.data.drugOrNdc : null),
-    escapeCsvField(input?.success ? input.data.daysSupply : null),
+    escapeCsvField(input?.success ? (input.data.daysSupply ?? null) : null),
+    escapeCsvField(calculation.calculationType),
+    escapeCsvField(input?.success ? (input.data.dispenseQuantity ?? null) : null),
+    escapeCsvField(
+      input?.success ? (input.data.dispenseQuantityUnit ?? null) : null,
+    ),
+    escapeCsvField(input?.success ? (input.data.prescribedQuantity ?? null) : null),
+    escapeCsvField(
+      input?.success ? (input.data.prescribedQuantityUnit ?? null) : null,
+    ),
+    escapeCsvField(input?.success ? (input.data.durationSource ?? null) : null),
+    escapeCsvField(input?.success ? (input.data.patientWeight ?? null) : null),
+    escapeCsvField(
+      input?.success && input.data.patientWeight !== undefined
+        ? (input.data.patientWeightUnit ?? "kg")
+        : null,
+    ),
+    escapeCsvField(input?.success ? (input.data.patientAgeYears ?? null) : null),
+    escapeCsvField(input?.success ? (input.data.measuringDevice ?? null) : null),
+    escapeCsvField(input?.success ? (input.data.roundingMode ?? null) : null),
     // Normalized fields
     escapeCsvField(normalized?.rxcui ?? null),
     escapeCsvField(normalized?.name ?? null),
@@ -111,8 +138,23 @@ function serializeCalculationToCsv(calculation: Calculation): string {
     escapeCsvField(normalized?.form ?? null),
     escapeCsvField(normalized?.dose ?? null),
     escapeCsvField(normalized?.doseUnit ?? null),
+    escapeCsvField(normalized?.doseMin ?? null),
+    escapeCsvField(normalized?.doseMax ?? null),
     escapeCsvField(normalized?.frequencyPerDay ?? null),
+    escapeCsvField(normalized?.frequencyPerDayMin ?? null),
+    escapeCsvField(normalized?.frequencyPerDayMax ?? null),
+    escapeCsvField(normalized ? (formatSchedule(normalized) ?? null) : null),
+    escapeCsvField(normalized?.durationDays ?? null),
     escapeCsvField(normalized?.route ?? null),
+    escapeCsvField(normalized?.site ?? null),
+    escapeCsvField(normalized?.siteMultiplier ?? null),
+    escapeCsvField(normalized?.topicalRegions?.join("; ") ?? null),
+    escapeCsvField(normalized?.fingertipUnits ?? null),
+    escapeCsvField(normalized?.patientWeightKg ?? null),
+    escapeCsvField(normalized?.prn ?? null),
+    escapeCsvField(normalized?.prnIndication ?? null),
+    escapeCsvField(normalized?.maxDailyDose ?? null),
+    escapeCsvField(normalized?.maxDailyDoseUnit ?? null),
     // NDC fields
     escapeCsvField(selectedNdc?.ndc ?? null),
     escapeCsvField(selectedNdc?.productName ?? null),
@@ -123,6 +165,10 @@ function serializeCalculationToCsv(calculation: Calculation): string {
     // Quantity fields
     escapeCsvField(calculation.quantityValue ?? null),
     escapeCsvField(calculation.quantityUnit ?? null),
+    escapeCsvField(calculation.daysSupplyValue ?? null),
+    escapeCsvField(calculation.dispenseQuantityValue ?? null),
+    escapeCsvField(billing?.billingQuantity ?? null),
+    escapeCsvField(billing?.billingUnit ?? null),
     // Warnings
     escapeCsvField(warnings?.length ?? 0),
   ];
@@ -153,6 +199,17 @@ function generateCsvHeader(): string {
     "sig",
     "drugOrNdc",
     "daysSupply",
+    "calculationType",
+    "dispenseQuantity",
+    "dispenseQuantityUnit",
+    "prescribedQuantity",
+    "prescribedQuantityUnit",
+    "durationSource",
+    "patientWeight",
+    "patientWeightUnit",
+    "patientAgeYears",
+    "measuringDevice",
+    "roundingMode",
     // Normalized fields
     "rxcui",
     "normalized_name",
@@ -160,8 +217,23 @@ function generateCsvHeader(): string {
     "normalized_form",
     "dose",
     "doseUnit",
+    "doseMin",
+    "doseMax",
     "frequencyPerDay",
+    "frequencyPerDayMin",
+    "frequencyPerDayMax",
+    "schedule",
+    "sigDurationDays",
     "route",
+    "site",
+    "siteMultiplier",
+    "topicalRegions",
+    "fingertipUnits",
+    "patientWeightKg",
+    "prn",
+    "prnIndication",
+    "maxDailyDose",
+    "maxDailyDoseUnit",
     // NDC fields
     "ndc",
     "productName",
@@ -172,6 +244,10 @@ function generateCsvHeader(): string {
     // Quantity fields
     "quantityValue",
     "quantityUnit",
+    "daysSupplyValue",
+    "dispenseQuantityValue",
+    "billingQuantity",
+    "billingUnit",
     // Warnings
     "warning_count",
   ];
@@ -213,8 +289,12 @@ export async function exportCalculation(
   });
 
   if (format === "json") {
-    // Export as JSON
-    const jsonString = JSON.stringify(calculation, null, 2);
+    // Export as JSON, with the claim quantity in NCPDP billing units
+    const jsonString = JSON.stringify(
+      { ...calculation, billing: getCalculationBilling(calculation) },
+      null,
+      2,
+    );
     return new Response(jsonString, {
       headers: {
         "Content-Type": "application/json",
@@ -276,11 +356,14 @@ export async function submitFeedback(
  * Server action to parse SIG text and return normalized values.
  * Used for real-time preview in the UI.
  */
-export async function previewSig(sig: string): Promise<{
+export async function previewSig(
+  sig: string,
+  options: ParseSigOptions = {},
+): Promise<{
   normalized: NormalizedSig;
   isComplete: boolean;
 }> {
-  const normalized = parseSig(sig);
+  const normalized = parseSig(sig, options);
   const isComplete = isSigComplete(normalized);
   return { normalized, isComplete };
 }
@@ -6,12 +6,26 @@
 import { eq, desc, and, gte, lte, sql, count } from "drizzle-orm";
 import { db } from "@/lib/db";
 import { calculations } from "@/server/db/calculator/schema";
-import { CalculatorInputSchema } from "./schema";
-import { parseSig, getPartialParseWarning } from "../utils/sigParser";
+import { CalculatorInputSchema, type CalculatorInput } from "./schema";
+import {
+  parseSig,
+  getPartialParseWarning,
+  type ParseSigOptions,
+} from "../utils/sigParser";
+import { toKilograms } from "../utils/weightDosing";
 import { resolveToRxcui } from "./services/rxnorm";
 import { searchFdaNdcByRxNorm, searchFdaNdc } from "./services/fdaNdc";
 import { selectOptimalNdc } from "./services/ndcSelection";
-import { computeQuantityWithWarnings } from "../utils/quantityMath";
+import {
+  computeQuantityWithWarnings,
+  resolveDaysSupply,
+  type QuantityOptions,
+} from "../utils/quantityMath";
+import { calculateDaysSupply, computeDaysSupplyWithWarnings } from "../utils/daysSupply";
+import {
+  reconcilePrescribedQuantity,
+  type PrescribedQuantity,
+} from "../utils/reconciliation";
 import { rankNdcCandidates } from "./services/aiAssist";
 import { auth } from "@/server/auth";
 import { withPerformanceLogging, logPerformance } from "@/lib/telemetry";
@@ -24,6 +38,152 @@ import type {
   NormalizedSig,
 } from "../types";
 
+/**
+ * Builds SIG parsing options (application area, patient weight) from calculator input.
+ */
+function getParseSigOptions(input: CalculatorInput): ParseSigOptions {
+  return {
+    topicalRegions: input.topicalRegions,
+    patientWeightKg:
+      input.patientWeight !== undefined
+        ? toKilograms(input.patientWeight, input.patientWeightUnit ?? "kg")
+        : undefined,
+  };
+}
+
+/**
+ * Builds quantity calculation options from calculator input.
+ */
+function getQuantityOptions(input: CalculatorInput): QuantityOptions {
+  return {
+    durationSource: input.durationSource,
+    measuringDevice: input.measuringDevice,
+    roundingMode: input.roundingMode,
+  };
+}
+
+/**
+ * Quantity prescribed in reverse mode, with its unit when one was entered ("1 inhaler").
+ */
+function getReverseQuantity(
+  input: CalculatorInput,
+): number | PrescribedQuantity | undefined {
+  if (input.dispenseQuantity === undefined) {
+    return undefined;
+  }
+  return input.dispenseQuantityUnit
+    ? { quantity: input.dispenseQuantity, unit: input.dispenseQuantityUnit }
+    : input.dispenseQuantity;
+}
+
+/**
+ * Resolves the days supply used to select an NDC.
+ * In reverse mode this is the days supply the dispensed quantity covers before a product is chosen.
+ */
+function getSelectionDaysSupply(
+  normalized: NormalizedSig,
+  input: CalculatorInput,
+): number | undefined {
+  if (input.calculationType === "daysSupply") {
+    const reverseQuantity = getReverseQuantity(input);
+    return reverseQuantity !== undefined
+      ? calculateDaysSupply(
+          normalized,
+          reverseQuantity,
+          getQuantityOptions(input),
+        )?.daysSupply
+      : undefined;
+  }
+  return input.daysSupply !== undefined
+    ? resolveDaysSupply(normalized, input.daysSupply, input.durationSource)
+    : undefined;
+}
+
+/**
+ * Computes the result of a calculation with its warnings.
+ * Quantity mode computes the quantity for the entered days supply and reconciles it with the
+ * prescribed quantity; non-breakable packages also store the whole-package quantity and the days
+ * supply it covers. Reverse mode keeps the dispensed quantity and computes the days supply it covers.
+ *
+ * @returns Result values to persist, or null if the SIG does not support a calculation
+ */
+function computeCalculationResult(
+  normalized: NormalizedSig,
+  input: CalculatorInput,
+  selectedNdc: NdcCandidate | null,
+): {
+  quantityValue: string;
+  quantityUnit: string;
+  daysSupplyValue: string | null;
+  dispenseQuantityValue: string | null;
+  warnings: Warning[];
+} | null {
+  if (input.calculationType === "daysSupply") {
+    const reverseQuantity = getReverseQuantity(input);
+    if (reverseQuantity === undefined) {
+      return null;
+    }
+    const result = computeDaysSupplyWithWarnings(
+      normalized,
+      reverseQuantity,
+      selectedNdc,
+      getQuantityOptions(input),
+    );
+    return result.daysSupply
+      ? {
+          quantityValue: result.daysSupply.dispenseQuantity.toString(),
+          quantityUnit: result.daysSupply.quantityUnit,
+          daysSupplyValue: result.daysSupply.daysSupply.toString(),
+          dispenseQuantityValue: null,
+          warnings: result.warnings,
+        }
+      : null;
+  }
+
+  if (input.daysSupply === undefined) {
+    return null;
+  }
+  const result = computeQuantityWithWarnings(
+    normalized,
+    input.daysSupply,
+    selectedNdc,
+    getQuantityOptions(input),
+  );
+  if (!result.quantity) {
+    return null;
+  }
+
+  // Non-breakable packages are dispensed whole, covering more days than the calculated quantity
+  const { packageRounding } = result.quantity;
+
+  // Compare the quantity written on the prescription to the calculated quantity
+  // (anything up to the whole-package quantity matches)
+  const discrepancy =
+    input.prescribedQuantity !== undefined
+      ? reconcilePrescribedQuantity(
+          result.quantity,
+          {
+            quantity: input.prescribedQuantity,
+            unit: input.prescribedQuantityUnit,
+          },
+          normalized,
+          selectedNdc,
+        )
+      : undefined;
+
+  return {
+    quantityValue: result.quantity.quantityValue.toString(),
+    quantityUnit: result.quantity.quantityUnit,
+    daysSupplyValue: packageRounding
+      ? packageRounding.roundedDaysSupply.toString()
+      : null,
+    dispenseQuantityValue: packageRounding
+      ? packageRounding.roundedQuantity.toString()
+      : null,
+    warnings: discrepancy ? [...result.warnings, discrepancy] : result.warnings,
+  };
+}
+
 /**
  * Fetches a calculation by ID.
  * If normalizedJson is empty, computes it from inputJson and persists to DB.
@@ -65,7 +225,7 @@ export async function getCalculationById(
     if (input.success && input.data.sig) {
       // Parse the SIG
       const sigParseStart = Date.now();
-      const normalized = parseSig(input.data.sig);
+      const normalized = parseSig(input.data.sig, getParseSigOptions(input.data));
       normalizationDuration = Date.now() - sigParseStart;
 
       // Get existing warnings or initialize empty array
@@ -228,7 +388,7 @@ export async function getCalculationById(
         selectedNdc = selectOptimalNdc(
           ndcCandidates,
           normalized,
-          input.data.daysSupply,
+          getSelectionDaysSupply(normalized, input.data),
         );
         if (selectedNdc) {
           console.log(
@@ -240,21 +400,26 @@ export async function getCalculationById(
       // Compute quantity if not already calculated
       let quantityValue: string | null = calculation.quantityValue;
       let quantityUnit: string | null = calculation.quantityUnit;
+      let daysSupplyValue: string | null = calculation.daysSupplyValue;
+      let dispenseQuantityValue: string | null =
+        calculation.dispenseQuantityValue;
 
-      if (!quantityValue && input.data.daysSupply) {
+      if (!quantityValue) {
         const quantityCalcStart = Date.now();
-        const quantityResult = computeQuantityWithWarnings(
+        const result = computeCalculationResult(
           normalized,
-          input.data.daysSupply,
+          input.data,
           selectedNdc,
         );
         quantityCalculationDuration = Date.now() - quantityCalcStart;
 
-        if (quantityResult.quantity) {
-          quantityValue = quantityResult.quantity.quantityValue.toString();
-          quantityUnit = quantityResult.quantity.quantityUnit;
+        if (result) {
+          quantityValue = result.quantityValue;
+          quantityUnit = result.quantityUnit;
+          daysSupplyValue = result.daysSupplyValue;
+          dispenseQuantityValue = result.dispenseQuantityValue;
           // Merge overfill/underfill warnings
-          newWarnings.push(...quantityResult.warnings);
+          newWarnings.push(...result.warnings);
         }
       }
 
@@ -268,6 +433,8 @@ export async function getCalculationById(
           selectedNdcJson: selectedNdc,
           quantityValue,
           quantityUnit,
+          daysSupplyValue,
+          dispenseQuantityValue,
           warningsJson: newWarnings.length > 0 ? newWarnings : null,
         })
         .where(eq(calculations.id, id));
@@ -293,6 +460,8 @@ export async function getCalculationById(
         selectedNdcJson: selectedNdc,
         quantityValue,
         quantityUnit,
+        daysSupplyValue,
+        dispenseQuantityValue,
         warningsJson: newWarnings.length > 0 ? newWarnings : null,
         status: "ready",
       } as Calculation;
@@ -440,7 +609,7 @@ export async function getCalculationById(
           selectedNdc = selectOptimalNdc(
             ndcCandidates,
             updatedNormalized as NormalizedSig,
-            input.data.daysSupply,
+            getSelectionDaysSupply(updatedNormalized as NormalizedSig, input.data),
           );
           if (selectedNdc) {
             console.log(
@@ -452,19 +621,24 @@ export async function getCalculationById(
         // Compute quantity if not already calculated
         let quantityValue: string | null = calculation.quantityValue;
         let quantityUnit: string | null = calculation.quantityUnit;
+        let daysSupplyValue: string | null = calculation.daysSupplyValue;
+        let dispenseQuantityValue: string | null =
+          calculation.dispenseQuantityValue;
 
-        if (!quantityValue && input.data.daysSupply) {
-          const quantityResult = computeQuantityWithWarnings(
+        if (!quantityValue) {
+          const result = computeCalculationResult(
             updatedNormalized as NormalizedSig,
-            input.data.daysSupply,
+            input.data,
             selectedNdc,
           );
 
-          if (quantityResult.quantity) {
-            quantityValue = quantityResult.quantity.quantityValue.toString();
-            quantityUnit = quantityResult.quantity.quantityUnit;
+          if (result) {
+            quantityValue = result.quantityValue;
+            quantityUnit = result.quantityUnit;
+            daysSupplyValue = result.daysSupplyValue;
+            dispenseQuantityValue = result.dispenseQuantityValue;
             // Merge overfill/underfill warnings
-            newWarnings.push(...quantityResult.warnings);
+            newWarnings.push(...result.warnings);
           }
         }
 
@@ -478,6 +652,8 @@ export async function getCalculationById(
             selectedNdcJson: selectedNdc,
             quantityValue,
             quantityUnit,
+            daysSupplyValue,
+            dispenseQuantityValue,
             warningsJson: newWarnings.length > 0 ? newWarnings : null,
           })
           .where(eq(calculations.id, id));
@@ -491,6 +667,8 @@ export async function getCalculationById(
           selectedNdcJson: selectedNdc,
           quantityValue,
           quantityUnit,
+          daysSupplyValue,
+          dispenseQuantityValue,
           warningsJson: newWarnings.length > 0 ? newWarnings : null,
         } as Calculation;
       } else {
@@ -536,21 +714,25 @@ export async function getCalculationById(
     calculation.inputJson
   ) {
     const input = CalculatorInputSchema.safeParse(calculation.inputJson);
-    if (input.success && input.data.daysSupply) {
+    if (input.success) {
       const normalized = calculation.normalizedJson as NormalizedSig;
       const selectedNdc = calculation.selectedNdcJson
         ? (calculation.selectedNdcJson as NdcCandidate)
         : null;
 
-      const quantityResult = computeQuantityWithWarnings(
+      const result = computeCalculationResult(
         normalized,
-        input.data.daysSupply,
+        input.data,
         selectedNdc,
       );
 
-      if (quantityResult.quantity) {
-        const quantityValue = quantityResult.quantity.quantityValue.toString();
-        const quantityUnit = quantityResult.quantity.quantityUnit;
+      if (result) {
+        const {
+          quantityValue,
+          quantityUnit,
+          daysSupplyValue,
+          dispenseQuantityValue,
+        } = result;
 
         // Get existing warnings
         const existingWarnings: Warning[] = calculation.warningsJson
@@ -558,7 +740,7 @@ export async function getCalculationById(
           : [];
         const newWarnings: Warning[] = [
           ...existingWarnings,
-          ...quantityResult.warnings,
+          ...result.warnings,
         ];
 
         // Update calculation in database
@@ -567,6 +749,8 @@ export async function getCalculationById(
           .set({
             quantityValue,
             quantityUnit,
+            daysSupplyValue,
+            dispenseQuantityValue,
             warningsJson: newWarnings.length > 0 ? newWarnings : null,
           })
           .where(eq(calculations.id, id));
@@ -576,6 +760,8 @@ export async function getCalculationById(
           ...calculation,
           quantityValue,
           quantityUnit,
+          daysSupplyValue,
+          dispenseQuantityValue,
           warningsJson: newWarnings.length > 0 ? newWarnings : null,
         } as Calculation;
       }
@@ -681,7 +867,7 @@ export async function getCalculationById(
           selectedNdc = selectOptimalNdc(
             ndcCandidates,
             normalized,
-            input.data.daysSupply,
+            getSelectionDaysSupply(normalized, input.data),
           );
           if (selectedNdc) {
             console.log(
@@ -1,21 +1,80 @@
 import { z } from "zod";
+import {
+  CalculationTypeSchema,
+  DurationSourceSchema,
+  MeasuringDeviceSchema,
+  RoundingModeSchema,
+  PatientWeightUnitSchema,
+  TopicalRegionSchema,
+} from "../types";
 
 /**
  * Schema for calculator input form validation.
  * Used by both client and server for consistent validation.
+ * Days supply is required to compute a quantity; in reverse mode ("daysSupply") the dispensed
+ * quantity is required instead and the days supply is calculated.
  */
-export const CalculatorInputSchema = z.object({
-  drugOrNdc: z.string().min(1, "Drug name or NDC is required"),
-  sig: z.string().min(1, "SIG (prescription instructions) is required"),
-  daysSupply: z
-    .number({
-      required_error: "Days supply is required",
-      invalid_type_error: "Days supply must be a number",
-    })
-    .int("Days supply must be a whole number")
-    .positive("Days supply must be greater than 0")
-    .max(365, "Days supply cannot exceed 365 days"),
-});
+export const CalculatorInputSchema = z
+  .object({
+    drugOrNdc: z.string().min(1, "Drug name or NDC is required"),
+    sig: z.string().min(1, "SIG (prescription instructions) is required"),
+    daysSupply: z
+      .number({ invalid_type_error: "Days supply must be a number" })
+      .int("Days supply must be a whole number")
+      .positive("Days supply must be greater than 0")
+      .max(365, "Days supply cannot exceed 365 days")
+      .optional(), // Required unless calculationType is "daysSupply"
+    calculationType: CalculationTypeSchema.optional(), // Defaults to "quantity"
+    dispenseQuantity: z
+      .number({ invalid_type_error: "Quantity must be a number" })
+      .positive("Quantity must be greater than 0")
+      .max(100000, "Quantity cannot exceed 100,000")
+      .optional(), // Prescribed quantity ("Disp #90"); required in reverse mode
+    dispenseQuantityUnit: z
+      .string()
+      .max(30, "Quantity unit is too long")
+      .optional(), // As written ("tablets", "inhaler", "mL" of insulin); defaults to the dispense unit
+    prescribedQuantity: z
+      .number({ invalid_type_error: "Rx quantity must be a number" })
+      .positive("Rx quantity must be greater than 0")
+      .max(100000, "Rx quantity cannot exceed 100,000")
+      .optional(), // Quantity written on the prescription, reconciled against the computed quantity
+    prescribedQuantityUnit: z
+      .string()
+      .max(30, "Rx quantity unit is too long")
+      .optional(), // As written ("tablets", "mL", "bottle"); defaults to the dispense unit
+    durationSource: DurationSourceSchema.optional(), // Duration used when the SIG states one (defaults to "daysSupply")
+    topicalRegions: z.array(TopicalRegionSchema).optional(), // Application area for topical SIGs without a stated amount
+    patientWeight: z
+      .number({ invalid_type_error: "Weight must be a number" })
+      .positive("Weight must be greater than 0")
+      .max(1000, "Weight cannot exceed 1000")
+      .optional(), // Required for per-kg (mg/kg) SIGs
+    patientWeightUnit: PatientWeightUnitSchema.optional(), // Defaults to "kg"
+    measuringDevice: MeasuringDeviceSchema.optional(), // Oral liquid doses are rounded to its precision (defaults to "oral_syringe")
+    roundingMode: RoundingModeSchema.optional(), // Rounding of the final quantities (defaults to "half_up")
+    patientAgeYears: z
+      .number({ invalid_type_error: "Age must be a number" })
+      .min(0, "Age cannot be negative")
+      .max(120, "Age cannot exceed 120 years")
+      .optional(),
+  })
+  .superRefine((input, ctx) => {
+    if (input.calculationType === "daysSupply") {
+      if (input.dispenseQuantity === undefined) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: "Quantity is required to calculate days supply",
+          path: ["dispenseQuantity"],
+        });
+      }
+    } else if (input.daysSupply === undefined) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "Days supply is required",
+        path: ["daysSupply"],
+      });
+    }
+  });
 
 export type CalculatorInput = z.infer<typeof CalculatorInputSchema>;
-
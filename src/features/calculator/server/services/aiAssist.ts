@@ -130,7 +130,7 @@ function buildRankingPrompt(
 Prescription Details:
 - Drug: ${input.drugOrNdc}
 - SIG: ${input.sig}
-- Days Supply: ${input.daysSupply}
+- ${input.calculationType === "daysSupply" ? `Quantity: ${input.dispenseQuantity}${input.dispenseQuantityUnit ? ` ${input.dispenseQuantityUnit}` : ""}` : `Days Supply: ${input.daysSupply}`}
 - Parsed Info: ${sigInfo}
 
 NDC Candidates:
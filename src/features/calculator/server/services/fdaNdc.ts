@@ -319,6 +319,7 @@ function parseFdaResponse(data: FdaNdcResponse): NdcCandidate[] {
       packageDescription: result.package_description,
       strength,
       unit,
+      dosageForm: result.dosage_form,
       active,
       startDate: result.marketing_start_date,
       endDate: expirationDate,
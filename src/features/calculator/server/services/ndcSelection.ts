@@ -182,10 +182,17 @@ export function scoreNdcCandidate(
     unitMatch: 0,
   };
 
+  // Unit to compare against the candidate (the dispensable unit once strength doses are converted)
+  let doseUnit = normalizedSig?.doseUnit;
+
   // Calculate package match score if we have quantity calculation
   if (normalizedSig && daysSupply) {
-    const quantityResult = calculateQuantity(normalizedSig, daysSupply);
+    // Convert strength doses with this candidate's strength so package sizes compare in its units
+    const quantityResult = calculateQuantity(normalizedSig, daysSupply, {
+      product: candidate,
+    });
     if (quantityResult) {
+      doseUnit = quantityResult.quantityUnit;
       const packageSize = parsePackageSize(candidate.packageDescription);
       if (packageSize) {
         breakdown.packageMatch = calculatePackageMatchScore(
@@ -208,9 +215,9 @@ export function scoreNdcCandidate(
   }
 
   // Compare units
-  if (normalizedSig?.doseUnit && candidate.unit) {
-    breakdown.unitMatch = compareUnits(normalizedSig.doseUnit, candidate.unit);
-  } else if (!normalizedSig?.doseUnit && !candidate.unit) {
+  if (doseUnit && candidate.unit) {
+    breakdown.unitMatch = compareUnits(doseUnit, candidate.unit);
+  } else if (!doseUnit && !candidate.unit) {
     // Both missing - neutral
     breakdown.unitMatch = 0.5;
   }
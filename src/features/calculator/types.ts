@@ -10,6 +10,148 @@ import { z } from "zod";
  */
 export type CalculationStatus = "pending" | "ready" | "error";
 
+/**
+ * One phase of a multi-step (taper or titration) SIG.
+ * e.g., "take 4 tabs daily x3 days" in "4 tabs daily x3 days, then 3 tabs daily x3 days".
+ */
+export const SigStepSchema = z.object({
+  dose: z.number(), // Dose per administration in this phase
+  doseUnit: z.string().optional(), // Unit of dose (inherits from the previous phase if omitted)
+  frequencyPerDay: z.number(), // Administrations per day in this phase
+  durationDays: z.number().optional(), // Phase length in days; only the final phase may be open-ended
+});
+
+export type SigStep = z.infer<typeof SigStepSchema>;
+
+/**
+ * One administration clause of a compound SIG, taken every day alongside the others.
+ * e.g., "2 tablets at bedtime" in "1 tablet in the morning and 2 tablets at bedtime".
+ */
+export const SigClauseSchema = z.object({
+  text: z.string(), // Clause as written, for verification
+  dose: z.number(), // Dose per administration in this clause
+  doseUnit: z.string(), // Unit of dose (inherits from the previous clause if omitted)
+  frequencyPerDay: z.number(), // Administrations per day for this clause
+});
+
+export type SigClause = z.infer<typeof SigClauseSchema>;
+
+/**
+ * Which duration drives quantity calculation when the SIG states one ("for 10 days").
+ * "daysSupply" uses the entered days supply; "sig" uses the SIG duration.
+ */
+export const DurationSourceSchema = z.enum(["daysSupply", "sig"]);
+
+export type DurationSource = z.infer<typeof DurationSourceSchema>;
+
+/**
+ * What a calculation solves for.
+ * "quantity" computes the quantity to dispense from the days supply; "daysSupply" (reverse mode)
+ * computes the days supply a prescribed quantity lasts ("Disp #90").
+ */
+export const CalculationTypeSchema = z.enum(["quantity", "daysSupply"]);
+
+export type CalculationType = z.infer<typeof CalculationTypeSchema>;
+
+/**
+ * Rounding mode for calculated quantities.
+ * "half_up" rounds halves away from zero; "half_even" rounds halves to the even digit;
+ * "ceiling" always rounds up (never short); "floor" always rounds down.
+ */
+export const RoundingModeSchema = z.enum([
+  "half_up",
+  "half_even",
+  "ceiling",
+  "floor",
+]);
+
+export type RoundingMode = z.infer<typeof RoundingModeSchema>;
+
+/**
+ * NCPDP billing unit for claim quantities: each, milliliter, or gram.
+ */
+export const BillingUnitSchema = z.enum(["EA", "ML", "GM"]);
+
+export type BillingUnit = z.infer<typeof BillingUnitSchema>;
+
+/**
+ * Non-daily dosing schedule.
+ * "interval" repeats every N days (e.g., 7 for weekly, 2 for every other day).
+ * "weekdays" doses on specific days of the week (0 = Sunday ... 6 = Saturday).
+ */
+export const SigScheduleSchema = z.object({
+  type: z.enum(["interval", "weekdays"]),
+  everyDays: z.number().optional(), // Interval length in days (interval schedules)
+  weekdays: z.array(z.number().int().min(0).max(6)).optional(), // Dosing days (weekday schedules)
+  dosesPerDay: z.number().optional(), // Administrations on each dosing day (defaults to 1)
+});
+
+export type SigSchedule = z.infer<typeof SigScheduleSchema>;
+
+/**
+ * Device used to measure oral liquid doses, which sets the volume the dose is rounded to.
+ * "oral_syringe" (0.1 mL), "large_oral_syringe" (0.5 mL), "dosing_cup" (2.5 mL), or "none" for no rounding.
+ */
+export const MeasuringDeviceSchema = z.enum([
+  "oral_syringe",
+  "large_oral_syringe",
+  "dosing_cup",
+  "none",
+]);
+
+export type MeasuringDevice = z.infer<typeof MeasuringDeviceSchema>;
+
+/**
+ * How package combinations are chosen for a dispense quantity.
+ * "exact_fit" requires packages that add up to the quantity exactly; "never_short" covers the quantity
+ * with the least waste; "fewest_packages" covers it with the fewest packages, even if more is left over.
+ */
+export const PackagePolicySchema = z.enum([
+  "exact_fit",
+  "never_short",
+  "fewest_packages",
+]);
+
+export type PackagePolicy = z.infer<typeof PackagePolicySchema>;
+
+/**
+ * Unit of an entered patient weight.
+ */
+export const PatientWeightUnitSchema = z.enum(["kg", "lb"]);
+
+export type PatientWeightUnit = z.infer<typeof PatientWeightUnitSchema>;
+
+/**
+ * Per-kilogram dose from a weight-based SIG.
+ * e.g., { amount: 10, unit: "mg", per: "day" } for "10 mg/kg/day divided BID".
+ */
+export const WeightBasedDoseSchema = z.object({
+  amount: z.number(), // Amount per kg
+  unit: z.string(), // Unit of the amount (e.g., "mg", "mcg", "unit")
+  per: z.enum(["dose", "day"]), // Per administration, or per day divided across doses
+});
+
+export type WeightBasedDose = z.infer<typeof WeightBasedDoseSchema>;
+
+/**
+ * Body region for topical (cream/ointment) estimation, sized in fingertip units (FTU).
+ */
+export const TopicalRegionSchema = z.enum([
+  "face_neck",
+  "one_hand",
+  "both_hands",
+  "one_arm",
+  "both_arms",
+  "one_foot",
+  "both_feet",
+  "one_leg",
+  "both_legs",
+  "trunk_front",
+  "trunk_back",
+]);
+
+export type TopicalRegion = z.infer<typeof TopicalRegionSchema>;
+
 /**
  * Normalized SIG (prescription instructions) structure.
  * Represents parsed and standardized prescription instructions.
@@ -20,11 +162,41 @@ export const NormalizedSigSchema = z.object({
   name: z.string().optional(), // Resolved medication name from RxNorm
   strength: z.string().optional(), // Medication strength (e.g., "10mg", "5mg/5ml")
   form: z.string().optional(), // Dosage form from RxNorm (e.g., "TABLET", "CAPSULE", "SOLUTION")
-  dosageForm: z.enum(["liquid", "insulin", "inhaler"]).optional(), // Detected special dosage form from SIG
-  dose: z.number().optional(), // Numeric dose value (e.g., 1, 2, 10)
+  dosageForm: z.enum(["liquid", "insulin", "inhaler", "patch"]).optional(), // Detected special dosage form from SIG
+  dose: z.number().optional(), // Numeric dose value (e.g., 1, 2, 10); upper bound for dose ranges
+  doseMin: z.number().optional(), // Lower bound of a dose range (e.g., 1 in "1-2 tablets")
+  doseMax: z.number().optional(), // Upper bound of a dose range (e.g., 2 in "1-2 tablets")
   doseUnit: z.string().optional(), // Unit of dose (e.g., "tablet", "ml", "mg", "capsule")
-  frequencyPerDay: z.number().optional(), // Frequency per day (e.g., 1, 2, 3, 4)
+  frequencyPerDay: z.number().optional(), // Frequency per day (e.g., 1, 2, 3, 4); upper bound for frequency ranges; fractional for non-daily schedules
+  frequencyPerDayMin: z.number().optional(), // Lower bound of a frequency range (e.g., 4 in "q4-6h")
+  frequencyPerDayMax: z.number().optional(), // Upper bound of a frequency range (e.g., 6 in "q4-6h")
   route: z.string().optional(), // Route of administration (e.g., "oral", "topical", "injection")
+  site: z.string().optional(), // Administration site (e.g., "both eyes", "left ear")
+  siteMultiplier: z.number().optional(), // Sites dosed per administration (2 for "each eye"/"OU"); dose is per site
+  topicalRegions: z.array(TopicalRegionSchema).optional(), // Body regions a topical dose covers (from the SIG or the form)
+  fingertipUnits: z.number().optional(), // Fingertip units per application; dose holds the grams (0.5 g per FTU)
+  weightBasedDose: WeightBasedDoseSchema.optional(), // Per-kg dose ("10 mg/kg/day"); dose is set once a weight is known
+  patientWeightKg: z.number().optional(), // Patient weight used for the per-kg dose
+  prn: z.boolean().optional(), // True for "as needed" (PRN) SIGs
+  prnIndication: z.string().optional(), // Reason for PRN use (e.g., "pain", "sleep")
+  slidingScale: z.boolean().optional(), // True for sliding-scale (correction) insulin SIGs; quantity requires maxDailyDose
+  maxDailyDose: z.number().optional(), // Stated daily maximum (e.g., 4 in "max 4 tabs/day")
+  maxDailyDoseUnit: z.string().optional(), // Unit of the daily maximum (e.g., "tablet", "mg")
+  steps: z.array(SigStepSchema).optional(), // Taper/titration phases, in order
+  unparsedSteps: z.boolean().optional(), // True when "then" phases could not all be parsed; dose and frequency are left unset
+  clauses: z.array(SigClauseSchema).optional(), // Compound SIG clauses with different doses per time of day
+  totalDailyDose: z.number().optional(), // Sum of clause doses per day for compound SIGs, in doseUnit
+  schedule: SigScheduleSchema.optional(), // Non-daily schedule (weekly, every other day, Mon/Wed/Fri)
+  durationDays: z.number().optional(), // Course length stated in the SIG (e.g., 10 for "for 10 days")
+  frequencyTokens: z
+    .array(
+      z.object({
+        token: z.string(), // Canonical abbreviation (e.g., "qhs")
+        text: z.string(), // Text as written in the SIG (e.g., "at bedtime")
+        meaning: z.string(), // Plain-language meaning (e.g., "at bedtime")
+      }),
+    )
+    .optional(), // Frequency abbreviations recognized in the SIG
 });
 
 export type NormalizedSig = z.infer<typeof NormalizedSigSchema>;
@@ -40,6 +212,7 @@ export const NdcCandidateSchema = z.object({
   packageDescription: z.string().optional(),
   strength: z.string().optional(), // e.g., "10mg", "5mg/5ml"
   unit: z.string().optional(), // e.g., "TABLET", "CAPSULE", "ML"
+  dosageForm: z.string().optional(), // FDA dosage form, e.g., "TABLET, FILM COATED"
   active: z.boolean().default(true),
   startDate: z.string().optional(), // ISO date string
   endDate: z.string().optional(), // ISO date string (null if active)
@@ -63,6 +236,15 @@ export const WarningSchema = z.object({
     "missing_ndc",
     "invalid_sig",
     "unresolved_rxcui",
+    "prn_no_max",
+    "split_tablet",
+    "duration_mismatch",
+    "sliding_scale_no_max",
+    "missing_weight",
+    "dose_rounding",
+    "beyond_use_date",
+    "quantity_discrepancy",
+    "package_rounding",
     "other",
   ]),
   severity: z.enum(["error", "warning", "info"]).default("warning"),
@@ -87,6 +269,9 @@ export const CalculationSchema = z.object({
   selectedNdcJson: NdcCandidateSchema.nullable(),
   quantityValue: z.string().nullable(), // numeric as string from DB
   quantityUnit: z.string().nullable(),
+  calculationType: CalculationTypeSchema,
+  daysSupplyValue: z.string().nullable(), // Calculated days supply in reverse mode, or the days whole packages cover (numeric as string from DB)
+  dispenseQuantityValue: z.string().nullable(), // Whole-package quantity when packages cannot be broken; quantityValue stays the calculated quantity (numeric as string from DB)
   warningsJson: z.array(WarningSchema).nullable(),
   aiNotes: z.string().nullable(),
   userId: z.string().uuid().nullable(),
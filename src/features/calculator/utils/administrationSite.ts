@@ -0,0 +1,240 @@
+/**
+ * Administration site parsing and per-site dose scaling.
+ * Reads where a dose is applied ("each eye", "OU", "left ear", "each nostril") and how many
+ * sites are dosed, so per-site doses ("1 drop in each eye") can be totaled per administration.
+ */
+
+import type { NormalizedSig, SigClause, SigStep } from "../types";
+import { multiply, toNumber, type Rational } from "./decimal";
+
+/**
+ * SIG whose doses may be exact rationals after unit conversion (strength, drops, per-site).
+ * Doses stay exact until the quantity is rounded; toNumericSig converts them for display.
+ */
+export type ExactSig = Omit<
+  NormalizedSig,
+  | "dose"
+  | "doseMin"
+  | "doseMax"
+  | "totalDailyDose"
+  | "maxDailyDose"
+  | "clauses"
+  | "steps"
+> & {
+  dose?: number | Rational;
+  doseMin?: number | Rational;
+  doseMax?: number | Rational;
+  totalDailyDose?: number | Rational;
+  maxDailyDose?: number | Rational;
+  clauses?: Array<Omit<SigClause, "dose"> & { dose: number | Rational }>;
+  steps?: Array<Omit<SigStep, "dose"> & { dose: number | Rational }>;
+};
+
+/**
+ * Administration site pattern.
+ * Abbreviations (OU/OD/OS/AU) are only read for drop doses or eye/ear routes, since they
+ * are ambiguous elsewhere. AD/AS are not read: "as" is common English and both are on
+ * the ISMP error-prone abbreviation list.
+ */
+type SitePattern = {
+  pattern: RegExp;
+  site?: string; // Site label; the matched text is used when omitted
+  multiplier: number; // Sites dosed per administration
+  route: "ophthalmic" | "otic" | "nasal";
+  abbreviation?: boolean;
+};
+
+const SITE_PATTERNS: SitePattern[] = [
+  {
+    pattern: /\b(?:each|both)\s+eyes?\b/i,
+    site: "both eyes",
+    multiplier: 2,
+    route: "ophthalmic",
+  },
+  {
+    pattern: /\b(?:right|left|affected|operative)\s+eye\b/i,
+    multiplier: 1,
+    route: "ophthalmic",
+  },
+  {
+    pattern: /\bo\.?u\.?(?![a-z])/i,
+    site: "both eyes",
+    multiplier: 2,
+    route: "ophthalmic",
+    abbreviation: true,
+  },
+  {
+    pattern: /\bo\.?d\.?(?![a-z])/i,
+    site: "right eye",
+    multiplier: 1,
+    route: "ophthalmic",
+    abbreviation: true,
+  },
+  {
+    pattern: /\bo\.?s\.?(?![a-z])/i,
+    site: "left eye",
+    multiplier: 1,
+    route: "ophthalmic",
+    abbreviation: true,
+  },
+  {
+    pattern: /\b(?:each|both)\s+ears?\b/i,
+    site: "both ears",
+    multiplier: 2,
+    route: "otic",
+  },
+  {
+    pattern: /\b(?:right|left|affected)\s+ear\b/i,
+    multiplier: 1,
+    route: "otic",
+  },
+  {
+    pattern: /\ba\.?u\.?(?![a-z])/i,
+    site: "both ears",
+    multiplier: 2,
+    route: "otic",
+    abbreviation: true,
+  },
+  {
+    pattern: /\b(?:each|both|per)\s+(?:nostrils?|nares|naris)\b/i,
+    site: "both nostrils",
+    multiplier: 2,
+    route: "nasal",
+  },
+  {
+    pattern: /\b(?:right|left)\s+(?:nostril|naris)\b/i,
+    multiplier: 1,
+    route: "nasal",
+  },
+];
+
+/**
+ * Extracts the administration site and the number of sites dosed per administration.
+ *
+ * @param sig - SIG text
+ * @param doseUnit - Parsed dose unit (abbreviations are only read for drops)
+ * @param route - Parsed route (abbreviations are also read for ophthalmic/otic routes)
+ * @returns Site, site multiplier, and the route implied by the site, or an empty object
+ */
+export function extractAdministrationSite(
+  sig: string,
+  doseUnit: string | undefined,
+  route: string | undefined,
+): { site?: string; siteMultiplier?: number; siteRoute?: string } {
+  const allowsAbbreviations =
+    doseUnit === "drop" || route === "ophthalmic" || route === "otic";
+
+  for (const sitePattern of SITE_PATTERNS) {
+    if (sitePattern.abbreviation && !allowsAbbreviations) {
+      continue;
+    }
+    const match = sitePattern.pattern.exec(sig);
+    if (match) {
+      return {
+        site: sitePattern.site ?? match[0].toLowerCase().replace(/\s+/g, " "),
+        siteMultiplier: sitePattern.multiplier,
+        siteRoute: sitePattern.route,
+      };
+    }
+  }
+
+  return {};
+}
+
+/**
+ * Multiplies every dose in a SIG (dose, range, clauses, phases, total and maximum daily dose)
+ * by a factor, optionally relabeling doses in the SIG dose unit with a new unit.
+ * Clause, phase, and maximum doses in a different unit are left unchanged.
+ *
+ * @param normalizedSig - Normalized SIG
+ * @param factor - Multiplier for doses in the SIG dose unit (exact rationals keep factors like 1/3)
+ * @param newDoseUnit - Unit for the scaled doses (defaults to the current dose unit)
+ * @returns Scaled SIG with exact doses
+ */
+export function scaleSigDoses(
+  normalizedSig: ExactSig,
+  factor: number | Rational,
+  newDoseUnit: string | undefined = normalizedSig.doseUnit,
+): ExactSig {
+  const { doseUnit } = normalizedSig;
+  const scale = (value: number | Rational | undefined) =>
+    value !== undefined ? multiply(value, factor) : undefined;
+
+  return {
+    ...normalizedSig,
+    dose: scale(normalizedSig.dose),
+    doseMin: scale(normalizedSig.doseMin),
+    doseMax: scale(normalizedSig.doseMax),
+    doseUnit: newDoseUnit,
+    totalDailyDose: scale(normalizedSig.totalDailyDose),
+    clauses: normalizedSig.clauses?.map((clause) =>
+      clause.doseUnit === doseUnit
+        ? {
+            ...clause,
+            dose: multiply(clause.dose, factor),
+            doseUnit: newDoseUnit ?? clause.doseUnit,
+          }
+        : clause,
+    ),
+    steps: normalizedSig.steps?.map((step) =>
+      step.doseUnit === doseUnit
+        ? {
+            ...step,
+            dose: multiply(step.dose, factor),
+            doseUnit: newDoseUnit,
+          }
+        : step,
+    ),
+    ...(normalizedSig.maxDailyDoseUnit === doseUnit && {
+      maxDailyDose: scale(normalizedSig.maxDailyDose),
+      maxDailyDoseUnit: newDoseUnit,
+    }),
+  };
+}
+
+/**
+ * Converts per-site doses ("1 drop in each eye") to doses per administration ("2 drops").
+ * The multiplier is cleared afterwards so it is only applied once.
+ *
+ * @param normalizedSig - Normalized SIG
+ * @returns SIG with doses per administration
+ */
+export function applySiteMultiplier(normalizedSig: ExactSig): ExactSig {
+  const { siteMultiplier } = normalizedSig;
+  if (siteMultiplier === undefined || siteMultiplier === 1) {
+    return normalizedSig;
+  }
+  return {
+    ...scaleSigDoses(normalizedSig, siteMultiplier),
+    siteMultiplier: undefined,
+  };
+}
+
+/**
+ * Converts the exact doses of a converted SIG to numbers for display and dose checks.
+ * Quantity math keeps the exact SIG; this is for values shown or compared as written.
+ *
+ * @param exactSig - SIG with exact doses
+ * @returns SIG with numeric doses
+ */
+export function toNumericSig(exactSig: ExactSig): NormalizedSig {
+  const convert = (value: number | Rational | undefined) =>
+    value !== undefined ? toNumber(value) : undefined;
+
+  return {
+    ...exactSig,
+    dose: convert(exactSig.dose),
+    doseMin: convert(exactSig.doseMin),
+    doseMax: convert(exactSig.doseMax),
+    totalDailyDose: convert(exactSig.totalDailyDose),
+    maxDailyDose: convert(exactSig.maxDailyDose),
+    clauses: exactSig.clauses?.map((clause) => ({
+      ...clause,
+      dose: toNumber(clause.dose),
+    })),
+    steps: exactSig.steps?.map((step) => ({
+      ...step,
+      dose: toNumber(step.dose),
+    })),
+  };
+}
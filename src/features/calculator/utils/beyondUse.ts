@@ -0,0 +1,94 @@
+/**
+ * Beyond-use dates for reconstituted oral suspensions.
+ * Suspensions such as amoxicillin must be discarded 10 or 14 days after mixing, so a
+ * longer days supply is split into several fills, each mixed when it is picked up.
+ * Rules live in config/ndcRules (local overrides first, then the defaults).
+ */
+
+import {
+  BEYOND_USE_RULES,
+  LOCAL_BEYOND_USE_RULES,
+  type BeyondUseRule,
+} from "@/config/ndcRules";
+import type { NdcCandidate } from "../types";
+
+/**
+ * Days supply capped by a beyond-use date, with the fills needed to cover the request.
+ */
+export type BeyondUseLimit = {
+  beyondUseDays: number; // Days the suspension may be used after reconstitution
+  storage: BeyondUseRule["storage"];
+  requestedDaysSupply: number; // Days supply before the cap
+  effectiveDaysSupply: number; // Days covered by one fill
+  fillDays: number[]; // Days covered by each fill (e.g., [14, 14, 2])
+};
+
+/**
+ * Reconstitution markers in FDA dosage forms, product names, and package descriptions,
+ * e.g. "POWDER, FOR SUSPENSION", "FOR SUSPENSION".
+ */
+const RECONSTITUTED_PATTERN = /\bfor\s+(?:oral\s+)?suspension\b|\bpowder,\s*for\b/i;
+
+/**
+ * Finds the beyond-use rule for a product, if it is a powder for oral suspension.
+ *
+ * @param product - Selected or candidate NDC product
+ * @param rules - Rules checked in order (local overrides, then defaults)
+ * @returns Matching rule, or undefined if none applies
+ */
+export function resolveBeyondUseRule(
+  product: NdcCandidate | null | undefined,
+  rules: BeyondUseRule[] = [...LOCAL_BEYOND_USE_RULES, ...BEYOND_USE_RULES],
+): BeyondUseRule | undefined {
+  if (!product) {
+    return undefined;
+  }
+
+  const formText = [
+    product.dosageForm,
+    product.productName,
+    product.packageDescription,
+  ]
+    .filter(Boolean)
+    .join(" ");
+  if (!RECONSTITUTED_PATTERN.test(formText)) {
+    return undefined;
+  }
+
+  return rules.find(
+    (rule) =>
+      (rule.ndc !== undefined && rule.ndc === product.ndc) ||
+      (rule.productPattern?.test(product.productName) ?? false),
+  );
+}
+
+/**
+ * Caps a days supply at the beyond-use date and splits it into fills.
+ *
+ * @param daysSupply - Requested days supply
+ * @param rule - Beyond-use rule for the product
+ * @returns Beyond-use limit, or undefined if the days supply is within the beyond-use date
+ */
+export function planBeyondUseFills(
+  daysSupply: number,
+  rule: BeyondUseRule,
+): BeyondUseLimit | undefined {
+  if (daysSupply <= rule.beyondUseDays) {
+    return undefined;
+  }
+
+  const fullFills = Math.floor(daysSupply / rule.beyondUseDays);
+  const remainderDays = daysSupply - fullFills * rule.beyondUseDays;
+  const fillDays: number[] = [
+    ...Array.from({ length: fullFills }, () => rule.beyondUseDays),
+    ...(remainderDays > 0 ? [remainderDays] : []),
+  ];
+
+  return {
+    beyondUseDays: rule.beyondUseDays,
+    storage: rule.storage,
+    requestedDaysSupply: daysSupply,
+    effectiveDaysSupply: rule.beyondUseDays,
+    fillDays,
+  };
+}
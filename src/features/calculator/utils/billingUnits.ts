@@ -0,0 +1,257 @@
+/**
+ * NCPDP billing units.
+ * Claims are submitted in NCPDP billing units: EA (each), ML (milliliters), or GM (grams).
+ * Tablets, capsules, patches, and kits bill each; liquids and injections bill mL; creams and
+ * ointments bill grams. Puff, spray, and insulin unit quantities are billed through the package:
+ * 1 inhaler of 8.5 g bills 8.5 GM, and 2 insulin pens of 3 mL bill 6 ML.
+ */
+
+import { BILLING_AMOUNT_RULES } from "@/config/ndcRules";
+import type { BillingUnit, Calculation, NdcCandidate } from "../types";
+import {
+  divide,
+  multiply,
+  roundDecimal,
+  roundRational,
+  toNumber,
+} from "./decimal";
+import { formatQuantity } from "./formatters";
+import { isActuationUnit, resolveActuationSupply } from "./inhalers";
+import { resolveInsulinSupply } from "./insulin";
+import { parsePackageHierarchy } from "./packageParser";
+import { normalizeUnit, parsePackageSize } from "./quantityMath";
+
+/**
+ * Claim-ready quantity in an NCPDP billing unit.
+ */
+export type BillingQuantity = {
+  billingQuantity: number; // Metric decimal quantity for the claim
+  billingUnit: BillingUnit;
+  basis: string; // How the quantity was derived (e.g., "1 inhaler × 8.5 g")
+};
+
+/**
+ * Dispense units billed each.
+ */
+const EACH_UNITS = new Set([
+  "tablet",
+  "capsule",
+  "patch",
+  "suppository",
+  "lozenge",
+  "troche",
+  "film",
+  "kit",
+  "each",
+]);
+
+/**
+ * Metric dispense units with their billing unit and conversion factor.
+ */
+const METRIC_UNITS: Record<
+  string,
+  { billingUnit: BillingUnit; factor: number }
+> = {
+  ml: { billingUnit: "ML", factor: 1 },
+  l: { billingUnit: "ML", factor: 1000 },
+  g: { billingUnit: "GM", factor: 1 },
+  mg: { billingUnit: "GM", factor: 0.001 },
+};
+
+/**
+ * Kits bill each kit, whatever the units of their components.
+ */
+const KIT_FORM_PATTERN = /\bkit\b/i;
+
+/**
+ * Rounds a billing quantity to the three decimals NCPDP allows.
+ */
+function roundBillingQuantity(value: number): number {
+  return roundDecimal(value, 3, "half_up");
+}
+
+/**
+ * Pluralizes a container label for a count.
+ */
+function formatContainers(count: number, label: string): string {
+  return `${count} ${label}${count === 1 ? "" : "s"}`;
+}
+
+/**
+ * Resolves the labeled weight or volume of one inhaler or spray bottle.
+ * The package description is preferred ("8.5 g in 1 INHALER"); otherwise the billing rules.
+ *
+ * @param product - Selected NDC product
+ * @returns Net contents per package in its billing unit, or undefined if unknown
+ */
+function resolveNetContents(
+  product: NdcCandidate,
+): { amount: number; billingUnit: BillingUnit } | undefined {
+  const levels =
+    parsePackageHierarchy(product.packageDescription)?.levels ?? [];
+  for (const level of [...levels].reverse()) {
+    const metric = METRIC_UNITS[normalizeUnit(level.unit)];
+    if (metric) {
+      return {
+        amount: toNumber(multiply(level.quantity, metric.factor)),
+        billingUnit: metric.billingUnit,
+      };
+    }
+  }
+
+  const rule = BILLING_AMOUNT_RULES.find(
+    (candidate) =>
+      (candidate.ndc !== undefined && candidate.ndc === product.ndc) ||
+      (candidate.productPattern?.test(product.productName) ?? false),
+  );
+  return rule
+    ? { amount: rule.amountPerPackage, billingUnit: rule.billingUnit }
+    : undefined;
+}
+
+/**
+ * Converts a dispense quantity to an NCPDP billing quantity.
+ * Kits bill each kit; count units bill each; mL and grams bill as they are (liters and mg
+ * are converted). Insulin units bill the mL of the pens or vials dispensed, and puffs or sprays
+ * bill the labeled weight or volume of the inhalers or bottles dispensed (each inhaler when
+ * the net contents are unknown).
+ *
+ * @param quantityValue - Dispense quantity
+ * @param quantityUnit - Dispense unit (e.g., "tablet", "ml", "puff")
+ * @param product - Selected NDC product (dosage form and package)
+ * @returns Billing quantity, or null if the unit cannot be billed
+ */
+export function calculateBillingQuantity(
+  quantityValue: number,
+  quantityUnit: string,
+  product: NdcCandidate | null | undefined,
+): BillingQuantity | null {
+  if (!(quantityValue > 0)) {
+    return null;
+  }
+  const unit = normalizeUnit(quantityUnit);
+
+  if (
+    product &&
+    KIT_FORM_PATTERN.test(product.dosageForm ?? product.productName)
+  ) {
+    const packageSize = parsePackageSize(product.packageDescription);
+    const kits =
+      unit === "kit"
+        ? quantityValue
+        : packageSize && normalizeUnit(packageSize.packageUnit) === unit
+          ? toNumber(
+              roundRational(
+                divide(quantityValue, packageSize.packageSize),
+                0,
+                "ceiling",
+              ),
+            )
+          : undefined;
+    return kits
+      ? {
+          billingQuantity: kits,
+          billingUnit: "EA",
+          basis: `${formatContainers(kits, "kit")} (kits bill each)`,
+        }
+      : null;
+  }
+
+  const metric = METRIC_UNITS[unit];
+  if (metric) {
+    return {
+      billingQuantity: roundBillingQuantity(
+        toNumber(multiply(quantityValue, metric.factor)),
+      ),
+      billingUnit: metric.billingUnit,
+      basis:
+        metric.factor === 1
+          ? `${formatQuantity(quantityValue)} ${quantityUnit}`
+          : `${formatQuantity(quantityValue)} ${quantityUnit} × ${metric.factor}`,
+    };
+  }
+
+  if (EACH_UNITS.has(unit)) {
+    return {
+      billingQuantity: roundBillingQuantity(quantityValue),
+      billingUnit: "EA",
+      basis: `${formatQuantity(quantityValue)} ${quantityUnit}`,
+    };
+  }
+
+  // Insulin bills the volume of the whole pens or vials dispensed
+  const insulin = unit === "unit" ? resolveInsulinSupply(product) : null;
+  if (insulin) {
+    const containers = toNumber(
+      roundRational(
+        divide(quantityValue, multiply(insulin.unitsPerMl, insulin.volumeMl)),
+        0,
+        "ceiling",
+      ),
+    );
+    return {
+      billingQuantity: roundBillingQuantity(
+        toNumber(multiply(containers, insulin.volumeMl)),
+      ),
+      billingUnit: "ML",
+      basis: `${formatContainers(containers, insulin.device)} × ${formatQuantity(insulin.volumeMl)} mL`,
+    };
+  }
+
+  // Inhalers and sprays bill the labeled net contents of the whole units dispensed
+  const actuations =
+    product && isActuationUnit(unit) ? resolveActuationSupply(product) : null;
+  if (product && actuations) {
+    const containers = toNumber(
+      roundRational(
+        divide(quantityValue, actuations.actuationsPerUnit),
+        0,
+        "ceiling",
+      ),
+    );
+    const contents = resolveNetContents(product);
+    return contents
+      ? {
+          billingQuantity: roundBillingQuantity(
+            toNumber(multiply(containers, contents.amount)),
+          ),
+          billingUnit: contents.billingUnit,
+          basis: `${formatContainers(containers, actuations.unitLabel)} × ${formatQuantity(contents.amount)} ${contents.billingUnit === "GM" ? "g" : "mL"}`,
+        }
+      : {
+          billingQuantity: containers,
+          billingUnit: "EA",
+          basis: `${formatContainers(containers, actuations.unitLabel)}; labeled net contents unknown, verify the billing unit`,
+        };
+  }
+
+  return null;
+}
+
+/**
+ * Billing quantity for a stored calculation (its dispense quantity and selected NDC).
+ * Whole non-breakable packages are billed rather than the calculated quantity.
+ *
+ * @param calculation - Calculation with quantity and selected NDC
+ * @returns Billing quantity, or null if there is no billable quantity
+ */
+export function getCalculationBilling(
+  calculation: Pick<
+    Calculation,
+    | "quantityValue"
+    | "dispenseQuantityValue"
+    | "quantityUnit"
+    | "selectedNdcJson"
+  >,
+): BillingQuantity | null {
+  const quantityValue =
+    calculation.dispenseQuantityValue ?? calculation.quantityValue;
+  if (!quantityValue || !calculation.quantityUnit) {
+    return null;
+  }
+  return calculateBillingQuantity(
+    Number.parseFloat(quantityValue),
+    calculation.quantityUnit,
+    calculation.selectedNdcJson,
+  );
+}
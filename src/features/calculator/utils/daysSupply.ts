@@ -0,0 +1,316 @@
+/**
+ * Days supply calculation (reverse mode).
+ * Computes how many days a prescribed quantity ("Disp #90") lasts from the SIG's daily use,
+ * the inverse of the quantity calculation in quantityMath.
+ */
+
+import type { NdcCandidate, NormalizedSig, Warning } from "../types";
+import {
+  calculateQuantity,
+  computeQuantityWithWarnings,
+  type PhaseQuantity,
+  type QuantityOptions,
+  type QuantityResult,
+} from "./quantityMath";
+import {
+  add,
+  compare,
+  divide,
+  multiply,
+  roundRational,
+  subtract,
+  toNumber,
+  type Rational,
+} from "./decimal";
+import {
+  planBeyondUseFills,
+  resolveBeyondUseRule,
+  type BeyondUseLimit,
+} from "./beyondUse";
+import { formatQuantity } from "./formatters";
+import { toDispenseUnits, type PrescribedQuantity } from "./reconciliation";
+
+/**
+ * Days supply over which the daily use is measured.
+ * A multiple of 7 so weekly and weekday schedules count whole weeks.
+ */
+const REFERENCE_DAYS_SUPPLY = 364;
+
+/**
+ * Days supply covered by a dispensed quantity.
+ */
+export type DaysSupplyResult = {
+  daysSupply: number; // Whole days covered (rounded down, at least 1)
+  exactDaysSupply: number; // Days covered before rounding down
+  dispenseQuantity: number; // In the dispense unit (1 inhaler is its labeled puffs)
+  quantityUnit: string;
+  dailyQuantity: number; // Average units used per day (by phase for multi-step SIGs)
+  sigDurationDays?: number; // SIG course length ("for 10 days") that caps the days supply
+  beyondUse?: BeyondUseLimit; // Days covered capped by a suspension beyond-use date, with split fills
+};
+
+/**
+ * Walks multi-step phases until the quantity runs out.
+ *
+ * @returns Days covered, or undefined if a phase has no daily use
+ */
+function coverPhases(
+  phases: PhaseQuantity[],
+  dispenseQuantity: number,
+): number | undefined {
+  let remaining = dispenseQuantity;
+  let days = 0;
+
+  for (const phase of phases) {
+    const dailyQuantity = toNumber(multiply(phase.dose, phase.frequencyPerDay));
+    if (!(dailyQuantity > 0)) {
+      return undefined;
+    }
+    if (remaining <= phase.quantityValue) {
+      return toNumber(add(days, divide(remaining, dailyQuantity)));
+    }
+    remaining = toNumber(subtract(remaining, phase.quantityValue));
+    days += phase.durationDays;
+  }
+
+  // Quantity outlasts the schedule
+  return days;
+}
+
+/**
+ * Days covered by whole containers of insulin pens or vials and inhalers or sprays.
+ * Each full container lasts its usable days (after priming), no longer than the discard limit;
+ * a partial container lasts in proportion to its contents, within the same limit.
+ *
+ * @param dispenseQuantity - Quantity in the dispense unit
+ * @param reference - Quantity result over the reference days supply
+ * @returns Days covered, or undefined if the product has no container estimate
+ */
+function coverContainers(
+  dispenseQuantity: number,
+  reference: NonNullable<QuantityResult>,
+): number | undefined {
+  const { insulin, containers } = reference;
+  // Units per container, days its contents last at the daily use, and the discard limit
+  const supply = insulin
+    ? {
+        unitsPerContainer: insulin.unitsPerContainer,
+        usableDays: divide(
+          multiply(insulin.unitsPerContainer, reference.daysSupply),
+          insulin.totalUnits,
+        ),
+        maxDays: insulin.discardDays,
+      }
+    : containers?.containerLabel
+      ? {
+          unitsPerContainer: containers.labeledSize ?? containers.size,
+          usableDays: containers.daysPerContainer,
+          maxDays: undefined,
+        }
+      : undefined;
+  if (!supply || !(supply.unitsPerContainer > 0)) {
+    return undefined;
+  }
+
+  const cap = (days: number | Rational) =>
+    supply.maxDays !== undefined && compare(days, supply.maxDays) > 0
+      ? supply.maxDays
+      : days;
+  const fullContainers = roundRational(
+    divide(dispenseQuantity, supply.unitsPerContainer),
+    0,
+    "floor",
+  );
+  const partialContainer = divide(
+    subtract(
+      dispenseQuantity,
+      multiply(fullContainers, supply.unitsPerContainer),
+    ),
+    supply.unitsPerContainer,
+  );
+  return toNumber(
+    add(
+      multiply(fullContainers, cap(supply.usableDays)),
+      cap(multiply(partialContainer, supply.usableDays)),
+    ),
+  );
+}
+
+/**
+ * Calculates the days supply a dispensed quantity covers.
+ * Formula: days supply = quantity ÷ (dose × frequencyPerDay), rounded down.
+ * The daily use comes from the quantity calculation, so strength conversion, per-site doses,
+ * non-daily schedules, ranges (by policy), and daily maximums apply as in forward mode.
+ * Multi-step SIGs consume the quantity phase by phase; a SIG duration caps the days supply,
+ * as does the beyond-use date of a reconstituted suspension.
+ * Insulin pens and vials, inhalers, and sprays are used up container by container, so priming
+ * and the insulin discard limit shorten the days supply.
+ * A quantity written in another unit ("1 inhaler", "15 mL" of insulin) is converted first.
+ *
+ * @param normalizedSig - Normalized SIG
+ * @param prescribed - Prescribed quantity in dispensable units (tablets, mL, g), or with its unit as written
+ * @param options - Calculation options (range policy, product)
+ * @returns Days supply result, or null if the daily use cannot be calculated or the unit converted
+ */
+export function calculateDaysSupply(
+  normalizedSig: NormalizedSig | null,
+  prescribed: number | PrescribedQuantity,
+  options: QuantityOptions = {},
+): DaysSupplyResult | null {
+  if (!normalizedSig) {
+    return null;
+  }
+
+  // Measure daily use over a long reference period rather than the SIG duration
+  const reference = calculateQuantity(normalizedSig, REFERENCE_DAYS_SUPPLY, {
+    ...options,
+    durationSource: "daysSupply",
+  });
+  if (!reference || !(reference.quantityValue > 0)) {
+    return null;
+  }
+
+  const dispenseQuantity =
+    typeof prescribed === "number"
+      ? prescribed
+      : toDispenseUnits(
+          prescribed,
+          reference.quantityUnit,
+          options.product ?? null,
+        );
+  if (dispenseQuantity === undefined || !(dispenseQuantity > 0)) {
+    return null;
+  }
+
+  const coveredDays = reference.phases
+    ? coverPhases(reference.phases, dispenseQuantity)
+    : (coverContainers(dispenseQuantity, reference) ??
+      toNumber(
+        divide(
+          multiply(dispenseQuantity, reference.daysSupply),
+          reference.quantityValue,
+        ),
+      ));
+  if (coveredDays === undefined || !(coveredDays > 0)) {
+    return null;
+  }
+
+  // A stated course ("for 10 days") ends regardless of quantity left over
+  const sigDurationDays = reference.phases
+    ? undefined
+    : normalizedSig.durationDays;
+  const courseDays =
+    sigDurationDays !== undefined
+      ? Math.min(coveredDays, sigDurationDays)
+      : coveredDays;
+
+  // A reconstituted suspension is discarded at its beyond-use date, as in forward mode
+  const beyondUseRule = reference.phases
+    ? undefined
+    : resolveBeyondUseRule(options.product);
+  const beyondUse = beyondUseRule
+    ? planBeyondUseFills(courseDays, beyondUseRule)
+    : undefined;
+  const exactDaysSupply = beyondUse?.effectiveDaysSupply ?? courseDays;
+
+  return {
+    daysSupply: Math.max(1, Math.floor(exactDaysSupply)),
+    exactDaysSupply,
+    dispenseQuantity,
+    quantityUnit: reference.quantityUnit,
+    dailyQuantity: toNumber(divide(dispenseQuantity, coveredDays)),
+    ...(sigDurationDays !== undefined && { sigDurationDays }),
+    ...(beyondUse && { beyondUse }),
+  };
+}
+
+/**
+ * Calculates days supply and runs the quantity checks for the resulting days supply.
+ * Convenience function mirroring computeQuantityWithWarnings for reverse mode.
+ *
+ * @param normalizedSig - Normalized SIG
+ * @param prescribed - Prescribed quantity in dispensable units, or with its unit as written
+ * @param selectedNdc - Selected NDC candidate (optional, for strength and package checks)
+ * @param options - Calculation options (range policy, measuring device)
+ * @returns Object with days supply result and warnings
+ */
+export function computeDaysSupplyWithWarnings(
+  normalizedSig: NormalizedSig | null,
+  prescribed: number | PrescribedQuantity,
+  selectedNdc: NdcCandidate | null,
+  options: QuantityOptions = {},
+): {
+  daysSupply: DaysSupplyResult | null;
+  warnings: Warning[];
+} {
+  const product = options.product ?? selectedNdc;
+  const daysSupply = calculateDaysSupply(normalizedSig, prescribed, {
+    ...options,
+    product,
+  });
+  if (!daysSupply) {
+    return { daysSupply, warnings: [] };
+  }
+  const { dispenseQuantity } = daysSupply;
+
+  // SIG and product checks for the calculated days supply, with the package checks run on the
+  // prescribed quantity (the SIG duration and beyond-use date are handled below)
+  const { warnings } = computeQuantityWithWarnings(
+    normalizedSig,
+    daysSupply.daysSupply,
+    selectedNdc,
+    { ...options, durationSource: "daysSupply", dispenseQuantity },
+  );
+
+  const { sigDurationDays, quantityUnit, beyondUse } = daysSupply;
+  // Days the quantity lasts within the SIG course, before the beyond-use cap
+  const quantityDays =
+    beyondUse?.requestedDaysSupply ?? daysSupply.exactDaysSupply;
+  const courseQuantity =
+    sigDurationDays !== undefined
+      ? toNumber(multiply(daysSupply.dailyQuantity, sigDurationDays))
+      : undefined;
+  if (sigDurationDays !== undefined && courseQuantity !== undefined) {
+    if (dispenseQuantity > courseQuantity + 1e-9) {
+      warnings.push({
+        type: "duration_mismatch",
+        severity: "warning",
+        message: `Quantity (${formatQuantity(dispenseQuantity)} ${quantityUnit}) exceeds the ${formatQuantity(sigDurationDays)}-day course in the SIG (${formatQuantity(courseQuantity)} ${quantityUnit}). Days supply is limited to the course; confirm the quantity with the prescriber.`,
+        field: "dispenseQuantity",
+        details: { sigDurationDays, courseQuantity, dispenseQuantity },
+      });
+    } else if (quantityDays < sigDurationDays) {
+      warnings.push({
+        type: "duration_mismatch",
+        severity: "warning",
+        message: `Quantity (${formatQuantity(dispenseQuantity)} ${quantityUnit}) covers ${formatQuantity(quantityDays)} days, less than the ${formatQuantity(sigDurationDays)}-day course in the SIG (${formatQuantity(courseQuantity)} ${quantityUnit}).`,
+        field: "dispenseQuantity",
+        details: { sigDurationDays, courseQuantity, dispenseQuantity },
+      });
+    }
+  }
+
+  // Reconstituted suspensions cannot cover more days than their beyond-use date
+  if (beyondUse) {
+    warnings.push({
+      type: "beyond_use_date",
+      severity: "warning",
+      message: `${product?.productName ?? "Suspension"} must be discarded ${beyondUse.beyondUseDays} days after reconstitution (stored ${beyondUse.storage === "refrigerate" ? "refrigerated" : "at room temperature"}). Quantity (${formatQuantity(dispenseQuantity)} ${quantityUnit}) covers ${formatQuantity(beyondUse.requestedDaysSupply)} days, so days supply is limited to ${beyondUse.effectiveDaysSupply} days; split into ${beyondUse.fillDays.length} fills (${beyondUse.fillDays.map((days) => formatQuantity(days)).join(" + ")} days), each reconstituted at pickup.`,
+      field: "daysSupply",
+      details: { ...beyondUse, dispenseQuantity },
+    });
+  }
+
+  // Claims use whole days, so note quantity left over after the last full day
+  if (daysSupply.exactDaysSupply - daysSupply.daysSupply > 0.01) {
+    warnings.push({
+      type: "other",
+      severity: "info",
+      message: `${formatQuantity(dispenseQuantity)} ${quantityUnit} covers ${formatQuantity(daysSupply.exactDaysSupply)} days; days supply is rounded down to ${daysSupply.daysSupply} days.`,
+      field: "daysSupply",
+      details: { exactDaysSupply: daysSupply.exactDaysSupply },
+    });
+  }
+
+  return { daysSupply, warnings };
+}
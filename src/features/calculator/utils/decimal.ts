@@ -0,0 +1,244 @@
+/**
+ * Exact decimal arithmetic for quantity calculations.
+ * JS numbers are binary floats, so 0.1 × 3 is 0.30000000000000004 and 0.1 mL doses drift to
+ * values like 29.999999. Here numbers are read from their shortest decimal form (0.1 is exactly
+ * 1/10) into bigint rationals, combined exactly, and rounded once, to a fixed number of decimal
+ * places with an explicit rounding mode, when the result becomes a number again.
+ */
+
+import type { RoundingMode } from "../types";
+
+/**
+ * Exact rational number. The denominator is positive and the fraction is reduced.
+ */
+export type Rational = {
+  numerator: bigint;
+  denominator: bigint;
+};
+
+/**
+ * Decimal places kept when an intermediate result becomes a number again.
+ * Far finer than any dose or quantity, so chained steps do not drift.
+ */
+export const INTERMEDIATE_DECIMAL_PLACES = 9;
+
+/**
+ * Shortest decimal form of a number: sign, digits, fraction, exponent ("1.5e-7").
+ */
+const DECIMAL_PATTERN = /^(-)?(\d+)(?:\.(\d+))?(?:e([+-]?\d+))?$/i;
+
+/**
+ * Greatest common divisor of two integers.
+ */
+function gcd(a: bigint, b: bigint): bigint {
+  let x = a < 0n ? -a : a;
+  let y = b < 0n ? -b : b;
+  while (y !== 0n) {
+    [x, y] = [y, x % y];
+  }
+  return x;
+}
+
+/**
+ * Builds a reduced rational with a positive denominator.
+ */
+function makeRational(numerator: bigint, denominator: bigint): Rational {
+  if (denominator === 0n) {
+    throw new RangeError("Division by zero");
+  }
+  const sign = denominator < 0n ? -1n : 1n;
+  // Never zero: the denominator is not zero
+  const divisor = gcd(numerator, denominator);
+  return {
+    numerator: (sign * numerator) / divisor,
+    denominator: (sign * denominator) / divisor,
+  };
+}
+
+/**
+ * Reads a number or decimal string exactly as written in decimal.
+ *
+ * @param value - Finite number, decimal string ("0.1", "2.5e-3"), or rational
+ * @returns Exact rational value
+ * @throws RangeError if the value is not a finite decimal
+ */
+export function toRational(value: number | string | Rational): Rational {
+  if (typeof value === "object") {
+    return value;
+  }
+  const match = DECIMAL_PATTERN.exec(String(value).trim());
+  if (!match || (typeof value === "number" && !Number.isFinite(value))) {
+    throw new RangeError(`Not a finite decimal: ${String(value)}`);
+  }
+
+  const fraction = match[3] ?? "";
+  const exponent = Number.parseInt(match[4] ?? "0", 10) - fraction.length;
+  const digits = BigInt(`${match[1] ?? ""}${match[2] ?? "0"}${fraction}`);
+  return exponent >= 0
+    ? makeRational(digits * 10n ** BigInt(exponent), 1n)
+    : makeRational(digits, 10n ** BigInt(-exponent));
+}
+
+/**
+ * Exact sum of the values.
+ */
+export function add(...values: Array<number | Rational>): Rational {
+  return values
+    .map(toRational)
+    .reduce(
+      (total, value) =>
+        makeRational(
+          total.numerator * value.denominator +
+            value.numerator * total.denominator,
+          total.denominator * value.denominator,
+        ),
+      makeRational(0n, 1n),
+    );
+}
+
+/**
+ * Exact difference a − b.
+ */
+export function subtract(a: number | Rational, b: number | Rational): Rational {
+  const subtrahend = toRational(b);
+  return add(a, makeRational(-subtrahend.numerator, subtrahend.denominator));
+}
+
+/**
+ * Exact product of the values.
+ */
+export function multiply(...values: Array<number | Rational>): Rational {
+  return values
+    .map(toRational)
+    .reduce(
+      (total, value) =>
+        makeRational(
+          total.numerator * value.numerator,
+          total.denominator * value.denominator,
+        ),
+      makeRational(1n, 1n),
+    );
+}
+
+/**
+ * Exact quotient a ÷ b.
+ *
+ * @throws RangeError if b is zero
+ */
+export function divide(a: number | Rational, b: number | Rational): Rational {
+  const dividend = toRational(a);
+  const divisor = toRational(b);
+  return makeRational(
+    dividend.numerator * divisor.denominator,
+    dividend.denominator * divisor.numerator,
+  );
+}
+
+/**
+ * Compares two values exactly.
+ *
+ * @returns -1 if a < b, 0 if equal, 1 if a > b
+ */
+export function compare(a: number | Rational, b: number | Rational): number {
+  const difference = subtract(a, b).numerator;
+  return difference === 0n ? 0 : difference < 0n ? -1 : 1;
+}
+
+/**
+ * Rounds a rational to a number of decimal places.
+ * "half_up" rounds halves away from zero, "half_even" rounds halves to the even digit,
+ * "ceiling" rounds toward +∞ (never short), and "floor" rounds toward −∞.
+ *
+ * @param value - Value to round
+ * @param places - Decimal places to keep (0 for whole numbers)
+ * @param mode - Rounding mode
+ * @returns Rounded value, with a denominator dividing 10^places
+ */
+export function roundRational(
+  value: number | Rational,
+  places: number,
+  mode: RoundingMode,
+): Rational {
+  const { numerator, denominator } = toRational(value);
+  const scale = 10n ** BigInt(places);
+  const scaled = numerator * scale;
+  // BigInt division truncates toward zero
+  let quotient = scaled / denominator;
+  const remainder = scaled % denominator;
+
+  if (remainder !== 0n) {
+    const isNegative = scaled < 0n;
+    const twiceRemainder = (remainder < 0n ? -remainder : remainder) * 2n;
+    const awayFromZero =
+      mode === "ceiling"
+        ? !isNegative
+        : mode === "floor"
+          ? isNegative
+          : twiceRemainder > denominator ||
+            (twiceRemainder === denominator &&
+              (mode === "half_up" || quotient % 2n !== 0n));
+    if (awayFromZero) {
+      quotient += isNegative ? -1n : 1n;
+    }
+  }
+  return makeRational(quotient, scale);
+}
+
+/**
+ * Formats a value as a plain decimal string, rounded to a number of decimal places
+ * with trailing zeros dropped ("30", "3.75", "0.125").
+ *
+ * @param value - Value to format
+ * @param places - Decimal places to keep
+ * @param mode - Rounding mode
+ * @returns Decimal string without exponent or float noise
+ */
+export function toDecimalString(
+  value: number | Rational,
+  places: number,
+  mode: RoundingMode,
+): string {
+  const rounded = roundRational(value, places, mode);
+  const scale = 10n ** BigInt(places);
+  const scaled = (rounded.numerator * scale) / rounded.denominator;
+  const sign = scaled < 0n ? "-" : "";
+  const digits = (scaled < 0n ? -scaled : scaled)
+    .toString()
+    .padStart(places + 1, "0");
+  const whole = digits.slice(0, digits.length - places);
+  const fraction = digits.slice(digits.length - places).replace(/0+$/, "");
+  return `${sign}${whole}${fraction ? `.${fraction}` : ""}`;
+}
+
+/**
+ * Converts a rational to the number with the same decimal digits at a number of places.
+ *
+ * @param value - Value to convert
+ * @param places - Decimal places to keep (defaults to INTERMEDIATE_DECIMAL_PLACES)
+ * @param mode - Rounding mode (defaults to "half_up")
+ * @returns Number whose shortest decimal form is the rounded value
+ */
+export function toNumber(
+  value: number | Rational,
+  places: number = INTERMEDIATE_DECIMAL_PLACES,
+  mode: RoundingMode = "half_up",
+): number {
+  return Number(toDecimalString(value, places, mode));
+}
+
+/**
+ * Rounds a number to a number of decimal places, exactly in decimal
+ * (1.005 rounds half up to 1.01, where Math.round(1.005 * 100) / 100 gives 1).
+ *
+ * @param value - Number to round
+ * @param places - Decimal places to keep
+ * @param mode - Rounding mode
+ * @returns Rounded number
+ */
+export function roundDecimal(
+  value: number,
+  places: number,
+  mode: RoundingMode,
+): number {
+  return toNumber(value, places, mode);
+}
@@ -0,0 +1,72 @@
+/**
+ * Drop-to-mL conversion for ophthalmic and otic solutions.
+ * Drop doses are converted to mL so quantities compare with packages like "5 ML in 1 BOTTLE".
+ * Drops per mL default to DEFAULT_DROPS_PER_ML and can be overridden per product in config/ndcRules.
+ */
+
+import { DEFAULT_DROPS_PER_ML, DROPS_PER_ML_RULES } from "@/config/ndcRules";
+import type { NdcCandidate } from "../types";
+import { scaleSigDoses, type ExactSig } from "./administrationSite";
+import { divide, toNumber } from "./decimal";
+
+/**
+ * Record of drop doses converted to mL, for display and warnings.
+ */
+export type DropConversion = {
+  dropsPerMl: number;
+  dropsPerMlSource: "default" | "product"; // Whether a product override was used
+  dropsPerDose: number; // Drops per administration, all sites included
+  mlPerDose: number;
+};
+
+/**
+ * Resolves drops per mL for a product from the override rules, or the default.
+ *
+ * @param product - Selected or candidate NDC product
+ * @returns Drops per mL and whether it came from a product override
+ */
+export function resolveDropsPerMl(product: NdcCandidate | null | undefined): {
+  dropsPerMl: number;
+  source: "default" | "product";
+} {
+  const rule = product
+    ? DROPS_PER_ML_RULES.find(
+        (candidate) =>
+          (candidate.ndc !== undefined && candidate.ndc === product.ndc) ||
+          (candidate.productPattern?.test(product.productName) ?? false),
+      )
+    : undefined;
+
+  return rule
+    ? { dropsPerMl: rule.dropsPerMl, source: "product" }
+    : { dropsPerMl: DEFAULT_DROPS_PER_ML, source: "default" };
+}
+
+/**
+ * Converts a SIG dosed in drops to mL.
+ * Site multipliers should already be applied so dropsPerDose covers every eye or ear.
+ *
+ * @param normalizedSig - SIG with exact doses
+ * @param product - Selected or candidate NDC product (for a drops-per-mL override)
+ * @returns SIG in exact mL and the conversion applied, or the SIG unchanged if it is not dosed in drops
+ */
+export function convertDropsToMilliliters(
+  normalizedSig: ExactSig,
+  product: NdcCandidate | null | undefined,
+): { sig: ExactSig; conversion?: DropConversion } {
+  const { dose, doseUnit } = normalizedSig;
+  if (dose === undefined || doseUnit !== "drop") {
+    return { sig: normalizedSig };
+  }
+
+  const { dropsPerMl, source } = resolveDropsPerMl(product);
+  return {
+    sig: scaleSigDoses(normalizedSig, divide(1, dropsPerMl), "ml"),
+    conversion: {
+      dropsPerMl,
+      dropsPerMlSource: source,
+      dropsPerDose: toNumber(dose),
+      mlPerDose: toNumber(divide(dose, dropsPerMl)),
+    },
+  };
+}
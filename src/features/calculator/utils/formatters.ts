@@ -0,0 +1,112 @@
+/**
+ * Display formatters for calculator values.
+ * Shared by the results panels and the SIG preview.
+ */
+
+import type {
+  MeasuringDevice,
+  NormalizedSig,
+  PackagePolicy,
+  RoundingMode,
+} from "../types";
+import { toDecimalString } from "./decimal";
+import { WEEKDAY_LABELS } from "./sigSchedule";
+
+/**
+ * Display labels for oral liquid measuring devices.
+ */
+export const MEASURING_DEVICE_LABELS: Record<MeasuringDevice, string> = {
+  oral_syringe: "Oral syringe",
+  large_oral_syringe: "Large oral syringe",
+  dosing_cup: "Dosing cup",
+  none: "No rounding",
+};
+
+/**
+ * Display labels for quantity rounding modes.
+ */
+export const ROUNDING_MODE_LABELS: Record<RoundingMode, string> = {
+  half_up: "Half up",
+  half_even: "Half even (banker's)",
+  ceiling: "Always up (never short)",
+  floor: "Always down",
+};
+
+/**
+ * Display labels for package combination policies.
+ */
+export const PACKAGE_POLICY_LABELS: Record<PackagePolicy, string> = {
+  exact_fit: "Exact fit",
+  never_short: "Never short (least waste)",
+  fewest_packages: "Fewest packages",
+};
+
+/**
+ * Formats a numeric quantity with at most one decimal place, dropping a trailing ".0".
+ */
+export function formatQuantity(value: number): string {
+  return toDecimalString(value, 1, "half_up");
+}
+
+/**
+ * Formats a dose amount with at most three decimal places, so small converted doses
+ * (e.g., 0.05 mL per drop) keep their precision without floating-point noise.
+ */
+export function formatDoseAmount(value: number): string {
+  return toDecimalString(value, 3, "half_up");
+}
+
+/**
+ * Formats the parsed dose, showing "min-max" for dose ranges.
+ * Returns undefined if no dose was parsed.
+ */
+export function formatDose(sig: NormalizedSig): string | undefined {
+  if (sig.doseMin !== undefined && sig.doseMax !== undefined) {
+    return `${formatDoseAmount(sig.doseMin)}-${formatDoseAmount(sig.doseMax)}`;
+  }
+  return sig.dose !== undefined ? formatDoseAmount(sig.dose) : undefined;
+}
+
+/**
+ * Formats the parsed frequency per day, showing "min-max" for frequency ranges.
+ * Returns undefined if no frequency was parsed.
+ */
+export function formatFrequency(sig: NormalizedSig): string | undefined {
+  if (
+    sig.frequencyPerDayMin !== undefined &&
+    sig.frequencyPerDayMax !== undefined
+  ) {
+    return `${sig.frequencyPerDayMin}-${sig.frequencyPerDayMax}`;
+  }
+  // Non-daily schedules have fractional averages (e.g., 0.14 for weekly)
+  return sig.frequencyPerDay !== undefined
+    ? String(Math.round(sig.frequencyPerDay * 100) / 100)
+    : undefined;
+}
+
+/**
+ * Formats a non-daily schedule (e.g., "every 7 days", "Mon/Wed/Fri").
+ * Returns undefined for daily SIGs.
+ */
+export function formatSchedule(sig: NormalizedSig): string | undefined {
+  const { schedule } = sig;
+  if (!schedule) {
+    return undefined;
+  }
+
+  const timesPerDay =
+    schedule.dosesPerDay !== undefined && schedule.dosesPerDay > 1
+      ? ` (${schedule.dosesPerDay}x/day)`
+      : "";
+
+  if (schedule.type === "weekdays") {
+    const days = (schedule.weekdays ?? [])
+      .map((day) => WEEKDAY_LABELS[day])
+      .join("/");
+    return `${days}${timesPerDay}`;
+  }
+
+  return schedule.everyDays !== undefined
+    ? `every ${formatQuantity(schedule.everyDays)} days${timesPerDay}`
+    : undefined;
+}
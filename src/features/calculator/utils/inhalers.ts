@@ -0,0 +1,75 @@
+/**
+ * Metered-dose inhaler and nasal spray actuation counts.
+ * Resolves actuations per dispensed unit from the package description
+ * ("200 AEROSOL, METERED in 1 INHALER") or the rules in config/ndcRules,
+ * so puff and spray quantities can be expressed as inhalers or bottles to dispense.
+ */
+
+import { ACTUATION_RULES } from "@/config/ndcRules";
+import type { NdcCandidate } from "../types";
+
+/**
+ * Actuations available from one dispensed inhaler or spray bottle.
+ */
+export type ActuationSupply = {
+  actuationsPerUnit: number; // Labeled actuations (e.g., 200)
+  primingActuations: number; // Actuations wasted priming a new unit
+  unitLabel: string; // Dispensed unit (e.g., "inhaler", "bottle")
+  source: "package" | "table"; // Package description or config/ndcRules
+};
+
+/**
+ * Package description pattern for actuation counts, e.g. "200 ACTUATION in 1 INHALER",
+ * "120 SPRAY, METERED in 1 BOTTLE, SPRAY", "200 AEROSOL, METERED in 1 INHALER".
+ */
+const ACTUATION_PACKAGE_PATTERN =
+  /(\d+)\s+(?:actuations?|aerosol,\s*metered|spray,\s*metered|sprays?|puffs?|inhalations?)\s+in\s+1\s+([a-z]+)/i;
+
+/**
+ * Returns true for dose units counted in actuations.
+ */
+export function isActuationUnit(unit: string | undefined): boolean {
+  return unit === "puff" || unit === "spray";
+}
+
+/**
+ * Resolves actuations per dispensed unit for an inhaler or nasal spray product.
+ * The package description is preferred; the rules table supplies priming and a count
+ * when the package is labeled by weight or volume (e.g., "16 g in 1 BOTTLE, SPRAY").
+ *
+ * @param product - Selected or candidate NDC product
+ * @returns Actuation supply, or null if the actuation count is unknown
+ */
+export function resolveActuationSupply(
+  product: NdcCandidate | null | undefined,
+): ActuationSupply | null {
+  if (!product) {
+    return null;
+  }
+
+  const rule = ACTUATION_RULES.find(
+    (candidate) =>
+      (candidate.ndc !== undefined && candidate.ndc === product.ndc) ||
+      (candidate.productPattern?.test(product.productName) ?? false),
+  );
+
+  const match = ACTUATION_PACKAGE_PATTERN.exec(product.packageDescription ?? "");
+  const packageActuations = match ? Number.parseInt(match[1] ?? "", 10) : NaN;
+  if (packageActuations > 0) {
+    return {
+      actuationsPerUnit: packageActuations,
+      primingActuations: rule?.primingActuations ?? 0,
+      unitLabel: (match?.[2] ?? rule?.unitLabel ?? "unit").toLowerCase(),
+      source: "package",
+    };
+  }
+
+  return rule
+    ? {
+        actuationsPerUnit: rule.actuationsPerUnit,
+        primingActuations: rule.primingActuations,
+        unitLabel: rule.unitLabel,
+        source: "table",
+      }
+    : null;
+}
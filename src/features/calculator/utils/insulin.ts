@@ -0,0 +1,236 @@
+/**
+ * Insulin pen and vial quantities.
+ * Converts daily insulin units into pens or vials using the concentration (U-100, U-200, U-500),
+ * the pen or vial volume, priming units per pen injection, and the in-use discard rule
+ * (28 days by default, per-product overrides in config/ndcRules).
+ */
+
+import {
+  DEFAULT_INSULIN_DISCARD_DAYS,
+  INSULIN_DISCARD_RULES,
+  INSULIN_PEN_PRIMING_UNITS,
+} from "@/config/ndcRules";
+import type { NdcCandidate, NormalizedSig } from "../types";
+import {
+  add,
+  compare,
+  divide,
+  multiply,
+  roundRational,
+  toNumber,
+  toRational,
+  type Rational,
+} from "./decimal";
+
+/**
+ * Insulin delivery device.
+ */
+export type InsulinDevice = "pen" | "vial";
+
+/**
+ * Insulin supply per dispensed pen or vial.
+ */
+export type InsulinSupply = {
+  unitsPerMl: number; // Concentration (100 for U-100)
+  device: InsulinDevice;
+  volumeMl: number; // Volume per pen or vial (e.g., 3 or 10)
+  primingUnitsPerInjection: number; // Safety shot per pen injection (0 for vials)
+  discardDays: number; // Days an opened pen or vial may be used
+};
+
+/**
+ * Pens or vials needed for a quantity of insulin, with the days each one lasts.
+ */
+export type InsulinEstimate = InsulinSupply & {
+  unitsPerContainer: number; // unitsPerMl × volumeMl
+  primingUnitsPerDay: number;
+  totalUnits: number; // Prescribed units plus priming over the days supply
+  daysPerContainer: number; // Days one pen or vial lasts, capped by the discard rule
+  limitedByDiscard: boolean; // True when the discard rule, not usage, ends each pen or vial
+  containerCount: number;
+};
+
+/**
+ * Insulin estimate with the exact total units and days per container, before the quantity
+ * result is rounded.
+ */
+export type ExactInsulinEstimate = Omit<
+  InsulinEstimate,
+  "totalUnits" | "daysPerContainer"
+> & {
+  totalUnits: Rational;
+  daysPerContainer: Rational;
+};
+
+/**
+ * Device markers in NDC package descriptions, product names, and dosage forms.
+ */
+const PEN_PATTERN =
+  /\b(?:PEN|KWIKPEN|FLEXPEN|FLEXTOUCH|SOLOSTAR|TEMPO PEN|CARTRIDGE|SYRINGE|INJECTOR)\b/i;
+const VIAL_PATTERN = /\bVIAL\b/i;
+
+/**
+ * Returns true if the SIG or product is insulin.
+ * The SIG parser flags insulin from the SIG text; the product name or dosage form covers
+ * SIGs that only say "units".
+ *
+ * @param normalizedSig - Normalized SIG
+ * @param product - Selected or candidate NDC product
+ */
+export function isInsulin(
+  normalizedSig: Pick<NormalizedSig, "dosageForm" | "doseUnit" | "name">,
+  product: NdcCandidate | null | undefined,
+): boolean {
+  if (normalizedSig.dosageForm === "insulin") {
+    return true;
+  }
+  return (
+    normalizedSig.doseUnit === "unit" &&
+    /insulin/i.test(`${product?.productName ?? ""} ${normalizedSig.name ?? ""}`)
+  );
+}
+
+/**
+ * Parses insulin units per mL from a strength ("100 [iU]/mL", "100 units/mL") or a
+ * product name ("U-500"). Premixed strengths ("70 [iU]/mL, 30 [iU]/mL") are summed.
+ *
+ * @param texts - Strength strings and product names, checked in order
+ * @returns Units per mL, or undefined if no concentration is found
+ */
+export function parseInsulinUnitsPerMl(
+  ...texts: Array<string | undefined>
+): number | undefined {
+  for (const text of texts) {
+    if (!text) {
+      continue;
+    }
+
+    const strengthMatches = [
+      ...text.matchAll(
+        /(\d+(?:\.\d+)?)\s*(?:\[iu\]|iu|units?)\s*\/\s*(?:1\s*)?ml\b/gi,
+      ),
+    ];
+    if (strengthMatches.length > 0) {
+      return strengthMatches.reduce(
+        (total, match) => total + Number.parseFloat(match[1] ?? "0"),
+        0,
+      );
+    }
+
+    const uMatch = /\bU-?(100|200|300|500)\b/i.exec(text);
+    if (uMatch) {
+      return Number.parseInt(uMatch[1] ?? "", 10);
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Resolves the insulin supply per pen or vial from the NDC product.
+ * Returns null when the concentration, device, or volume cannot be determined.
+ *
+ * @param product - Selected or candidate NDC product
+ * @returns Insulin supply, or null if it cannot be determined
+ */
+export function resolveInsulinSupply(
+  product: NdcCandidate | null | undefined,
+): InsulinSupply | null {
+  if (!product) {
+    return null;
+  }
+
+  const unitsPerMl = parseInsulinUnitsPerMl(
+    product.strength,
+    product.productName,
+  );
+  const deviceText = [
+    product.packageDescription,
+    product.productName,
+    product.dosageForm,
+  ]
+    .filter(Boolean)
+    .join(" ");
+  const device: InsulinDevice | undefined = PEN_PATTERN.test(deviceText)
+    ? "pen"
+    : VIAL_PATTERN.test(deviceText)
+      ? "vial"
+      : undefined;
+  // Volume of one pen or vial, e.g. "3 mL in 1 SYRINGE" or "10 mL in 1 VIAL"
+  const volumeMatch = /(\d+(?:\.\d+)?)\s*ml\s+in\s+1\s+[a-z]+/i.exec(
+    product.packageDescription ?? "",
+  );
+  const volumeMl = volumeMatch
+    ? Number.parseFloat(volumeMatch[1] ?? "")
+    : Number.NaN;
+
+  if (!unitsPerMl || !device || !(volumeMl > 0)) {
+    return null;
+  }
+
+  const discardRule = INSULIN_DISCARD_RULES.find((rule) =>
+    rule.productPattern.test(product.productName),
+  );
+
+  return {
+    unitsPerMl,
+    device,
+    volumeMl,
+    primingUnitsPerInjection: device === "pen" ? INSULIN_PEN_PRIMING_UNITS : 0,
+    discardDays: discardRule?.discardDays ?? DEFAULT_INSULIN_DISCARD_DAYS,
+  };
+}
+
+/**
+ * Estimates pens or vials for a quantity of insulin units.
+ * Each pen or vial lasts until its units (less priming) are used or the discard day,
+ * whichever comes first.
+ *
+ * @param quantityUnits - Prescribed units over the days supply
+ * @param daysSupply - Days supply of the quantity
+ * @param injectionsPerDay - Injections per day (pens prime before each)
+ * @param supply - Insulin supply per pen or vial
+ * @returns Exact insulin estimate, or null if the daily use is not positive
+ */
+export function estimateInsulinContainers(
+  quantityUnits: number | Rational,
+  daysSupply: number,
+  injectionsPerDay: number,
+  supply: InsulinSupply,
+): ExactInsulinEstimate | null {
+  if (!(daysSupply > 0)) {
+    return null;
+  }
+  const primingUnitsPerDay = multiply(
+    supply.primingUnitsPerInjection,
+    injectionsPerDay,
+  );
+  const totalUnits = add(
+    quantityUnits,
+    multiply(primingUnitsPerDay, daysSupply),
+  );
+  if (compare(totalUnits, 0) <= 0) {
+    return null;
+  }
+  const dailyUnits = divide(totalUnits, daysSupply);
+
+  const unitsPerContainer = multiply(supply.unitsPerMl, supply.volumeMl);
+  const usageDays = divide(unitsPerContainer, dailyUnits);
+  const limitedByDiscard = compare(supply.discardDays, usageDays) < 0;
+  // Kept exact so whole containers are not over-counted (100 days ÷ 33⅓ days is 3)
+  const daysPerContainer = limitedByDiscard
+    ? toRational(supply.discardDays)
+    : usageDays;
+
+  return {
+    ...supply,
+    unitsPerContainer: toNumber(unitsPerContainer),
+    primingUnitsPerDay: toNumber(primingUnitsPerDay),
+    totalUnits,
+    daysPerContainer,
+    limitedByDiscard,
+    containerCount: toNumber(
+      roundRational(divide(daysSupply, daysPerContainer), 0, "ceiling"),
+    ),
+  };
+}
@@ -0,0 +1,260 @@
+/**
+ * Breakable vs non-breakable packages.
+ * Tablets and oral liquids can be counted or poured from a stock bottle, but inhalers, insulin pens,
+ * eye-drop bottles, tubes, and unit-of-use packs must be dispensed whole. For those, the dispense
+ * quantity is rounded up to whole packages and the days supply is recomputed from the rounded quantity.
+ * Site overrides live in config/ndcRules.
+ */
+
+import {
+  LOCAL_PACKAGE_BREAKABILITY_RULES,
+  type PackageBreakabilityRule,
+} from "@/config/ndcRules";
+import type { NdcCandidate } from "../types";
+import {
+  compare,
+  divide,
+  multiply,
+  roundRational,
+  toNumber,
+  type Rational,
+} from "./decimal";
+import { parsePackageHierarchy, type PackageHierarchy } from "./packageParser";
+import type { ExactContainerEstimate } from "./quantityMath";
+
+/**
+ * Whether a product's package may be split, and the smallest unit that may not.
+ */
+export type PackageBreakability = {
+  breakable: boolean;
+  reason: string;
+  unitSize?: number; // Dispensable units in the smallest package that cannot be split
+  unitLabel?: string; // That package's container (e.g., "dropper bottle", "blister pack")
+};
+
+/**
+ * Dispense quantity rounded up to whole packages.
+ */
+export type PackageRounding = {
+  packageCount: number; // Whole packages dispensed
+  packageSize: number; // Dispensable units per package
+  packageLabel: string; // Package container (e.g., "inhaler", "tube")
+  roundedQuantity: number; // Quantity in the whole packages
+  roundedDaysSupply: number; // Days the whole packages cover (days supply for the claim)
+  reason: string; // Why the package cannot be split
+};
+
+/**
+ * Containers that are dispensed whole.
+ */
+const NON_BREAKABLE_CONTAINER_PATTERN =
+  /\b(?:inhaler|canister|pen|cartridge|syringe|tube|jar|kit|applicator|ampule|vial|dose pack)\b|\bbottle,\s*(?:dropper|spray|pump)\b/i;
+
+/**
+ * Blister packs holding at least this many units are unit-of-use packs (dose packs, cycle packs);
+ * smaller unit-dose blisters can be dispensed individually.
+ */
+const UNIT_OF_USE_BLISTER_MIN_UNITS = 21;
+
+/**
+ * Dosage forms dispensed in the original container.
+ */
+const NON_BREAKABLE_FORM_PATTERN =
+  /\b(?:aerosol|inhalant|spray|ophthalmic|otic|drops?|cream|ointment|gel|lotion|patch|transdermal|injection|kit)\b|\bfor\s+(?:oral\s+)?(?:suspension|solution)\b/i;
+
+/**
+ * Formats an FDA container name for display ("bottle, dropper" -> "dropper bottle").
+ */
+function formatContainer(container: string): string {
+  const [noun = container, qualifier] = container.split(/,\s*/);
+  return qualifier ? `${qualifier} ${noun}` : noun;
+}
+
+/**
+ * Finds the innermost package level that cannot be split.
+ *
+ * @returns Dispensable units in that package and its container, or undefined if none
+ */
+function findUnbreakableLevel(
+  hierarchy: PackageHierarchy,
+): { unitSize: number; unitLabel: string } | undefined {
+  let contents = 1;
+  for (let index = hierarchy.levels.length - 1; index >= 0; index--) {
+    const level = hierarchy.levels[index];
+    if (!level) {
+      continue;
+    }
+    contents = toNumber(multiply(contents, level.quantity));
+    const isUnitOfUse =
+      NON_BREAKABLE_CONTAINER_PATTERN.test(level.container) ||
+      (level.container === "blister pack" &&
+        contents >= UNIT_OF_USE_BLISTER_MIN_UNITS);
+    if (isUnitOfUse) {
+      return {
+        unitSize: contents,
+        unitLabel: formatContainer(level.container),
+      };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Classifies a product's package as breakable or non-breakable.
+ * Checks site rules, then the package type (inhaler, pen, dropper bottle, tube, unit-of-use pack),
+ * then the dosage form; anything else is breakable.
+ *
+ * @param product - Selected NDC product
+ * @param rules - Site overrides checked first
+ * @returns Breakability, or undefined if there is no product
+ */
+export function classifyPackage(
+  product: NdcCandidate | null | undefined,
+  rules: PackageBreakabilityRule[] = LOCAL_PACKAGE_BREAKABILITY_RULES,
+): PackageBreakability | undefined {
+  if (!product) {
+    return undefined;
+  }
+
+  const hierarchy = parsePackageHierarchy(product.packageDescription);
+  const innermost = hierarchy?.levels[hierarchy.levels.length - 1];
+  const unbreakableLevel = hierarchy
+    ? findUnbreakableLevel(hierarchy)
+    : undefined;
+  // Forms without a whole-package container split at the innermost container (e.g., the bottle)
+  const wholeUnit =
+    unbreakableLevel ??
+    (innermost && {
+      unitSize: innermost.quantity,
+      unitLabel: formatContainer(innermost.container),
+    });
+
+  const rule = rules.find(
+    (candidate) =>
+      (candidate.ndc !== undefined && candidate.ndc === product.ndc) ||
+      (candidate.productPattern?.test(product.productName) ?? false),
+  );
+  if (rule) {
+    return {
+      breakable: rule.breakable,
+      reason:
+        rule.reason ??
+        (rule.breakable
+          ? "package may be split (site rule)"
+          : "package is dispensed whole (site rule)"),
+      ...(!rule.breakable && wholeUnit),
+    };
+  }
+
+  if (unbreakableLevel) {
+    return {
+      breakable: false,
+      reason: `${unbreakableLevel.unitLabel}s cannot be split`,
+      ...unbreakableLevel,
+    };
+  }
+
+  const formMatch = NON_BREAKABLE_FORM_PATTERN.exec(
+    product.dosageForm ?? product.productName,
+  );
+  if (formMatch) {
+    return {
+      breakable: false,
+      reason: `${/^for\s/i.test(formMatch[0]) ? "reconstituted" : formMatch[0].toLowerCase()} products are dispensed in the original container`,
+      ...wholeUnit,
+    };
+  }
+
+  return {
+    breakable: true,
+    reason: "package may be counted or poured",
+  };
+}
+
+/**
+ * Rounds a quantity up to whole packages of a non-breakable product.
+ * Inhaler and insulin estimates already count whole containers (after priming and discard),
+ * so their containers are used; other products round to the smallest unbreakable package.
+ * The days supply is recomputed from the rounded quantity, capped at maxDaysSupply
+ * (a beyond-use date or a stated course).
+ *
+ * @param quantityValue - Exact calculated quantity
+ * @param daysSupply - Days the calculated quantity covers
+ * @param breakability - Package classification
+ * @param containers - Container estimate for the quantity (confirms the package is sized in the quantity unit)
+ * @param maxDaysSupply - Days the whole packages may cover at most
+ * @returns Package rounding, or undefined if the package is breakable or already whole
+ */
+export function roundToWholePackages(
+  quantityValue: number | Rational,
+  daysSupply: number,
+  breakability: PackageBreakability | undefined,
+  containers: ExactContainerEstimate | undefined,
+  maxDaysSupply?: number,
+): PackageRounding | undefined {
+  if (
+    !breakability ||
+    breakability.breakable ||
+    compare(quantityValue, 0) <= 0
+  ) {
+    return undefined;
+  }
+
+  const packaging = containers?.containerLabel
+    ? {
+        packageCount: containers.count,
+        packageSize: containers.labeledSize ?? containers.size,
+        packageLabel: containers.containerLabel,
+        coveredDays: multiply(containers.count, containers.daysPerContainer),
+        reason: `${containers.containerLabel}s cannot be split`,
+      }
+    : containers &&
+        breakability.unitSize !== undefined &&
+        breakability.unitSize > 0 &&
+        breakability.unitSize <= containers.size
+      ? {
+          packageCount: toNumber(
+            roundRational(
+              divide(quantityValue, breakability.unitSize),
+              0,
+              "ceiling",
+            ),
+          ),
+          packageSize: breakability.unitSize,
+          packageLabel: breakability.unitLabel ?? "package",
+          coveredDays: undefined,
+          reason: breakability.reason,
+        }
+      : undefined;
+  if (!packaging) {
+    return undefined;
+  }
+
+  const roundedQuantity = multiply(
+    packaging.packageCount,
+    packaging.packageSize,
+  );
+  if (compare(roundedQuantity, quantityValue) <= 0) {
+    return undefined;
+  }
+
+  const coveredDays = toNumber(
+    roundRational(
+      packaging.coveredDays ??
+        divide(multiply(roundedQuantity, daysSupply), quantityValue),
+      0,
+      "floor",
+    ),
+  );
+  return {
+    packageCount: packaging.packageCount,
+    packageSize: packaging.packageSize,
+    packageLabel: packaging.packageLabel,
+    roundedQuantity: toNumber(roundedQuantity),
+    roundedDaysSupply: Math.max(
+      daysSupply,
+      Math.min(coveredDays, maxDaysSupply ?? coveredDays),
+    ),
+    reason: packaging.reason,
+  };
+}
@@ -0,0 +1,251 @@
+/**
+ * Package combination optimizer.
+ * Chooses a mix of package sizes of the same product and strength (e.g., 1×90 + 1×30) to dispense
+ * a quantity, instead of repeating the single selected package.
+ */
+
+import type { NdcCandidate, PackagePolicy } from "../types";
+import { normalizeUnit, parsePackageSize } from "./quantityMath";
+
+/**
+ * Largest number of scaled quantity steps searched; larger quantities are not optimized.
+ */
+const MAX_SEARCH_STEPS = 200_000;
+
+/**
+ * One package size in a combination.
+ */
+export type PackageLine = {
+  candidate: NdcCandidate; // NDC dispensed for this size
+  packageSize: number;
+  count: number;
+};
+
+/**
+ * Packages chosen to dispense a quantity.
+ */
+export type PackageCombination = {
+  policy: PackagePolicy;
+  lines: PackageLine[]; // Largest package size first
+  quantity: number; // Quantity to dispense
+  quantityUnit: string;
+  totalQuantity: number; // Quantity in the chosen packages
+  packageCount: number;
+  waste: number; // Quantity dispensed beyond the quantity
+};
+
+/**
+ * Why no package combination was returned.
+ */
+export type PackageCombinationFailure =
+  | "no_package_sizes" // No package of the product and strength is sized in the dispense unit
+  | "no_exact_fit" // "exact_fit" policy and no combination totals the quantity
+  | "search_limit"; // Quantity too large to search
+
+/**
+ * Package combination, or the reason none was found.
+ */
+export type PackageCombinationResult =
+  | { combination: PackageCombination; failure?: undefined }
+  | { combination: null; failure: PackageCombinationFailure };
+
+/**
+ * Normalizes a product name or strength for comparison ("Lisinopril 10 MG" -> "lisinopril10mg").
+ */
+function comparisonKey(value: string | undefined): string {
+  return (value ?? "").toLowerCase().replace(/[^a-z0-9./]/g, "");
+}
+
+/**
+ * Checks whether a candidate is the same product and strength as the reference NDC.
+ *
+ * @param reference - Product being dispensed (usually the selected NDC)
+ * @param candidate - NDC candidate to compare
+ * @returns True if product name and strength match
+ */
+export function isSameProduct(
+  reference: NdcCandidate,
+  candidate: NdcCandidate,
+): boolean {
+  return (
+    comparisonKey(candidate.productName) ===
+      comparisonKey(reference.productName) &&
+    comparisonKey(candidate.strength) === comparisonKey(reference.strength)
+  );
+}
+
+/**
+ * Collects the package sizes available for the reference product, one candidate per size.
+ * Candidates must match the reference product name and strength and be sized in the
+ * dispense unit. Inactive NDCs are used only when no active NDC matches.
+ *
+ * @param reference - Product the combination is built for (usually the selected NDC)
+ * @param candidates - NDC candidates
+ * @param quantityUnit - Dispense unit
+ * @returns Package options, largest first
+ */
+export function getPackageOptions(
+  reference: NdcCandidate,
+  candidates: NdcCandidate[],
+  quantityUnit: string,
+): Array<{ candidate: NdcCandidate; packageSize: number }> {
+  const unit = normalizeUnit(quantityUnit);
+  const bySize = new Map<number, NdcCandidate>();
+
+  for (const candidate of [reference, ...candidates]) {
+    const packageSize = parsePackageSize(candidate.packageDescription);
+    if (
+      !packageSize ||
+      normalizeUnit(packageSize.packageUnit) !== unit ||
+      !isSameProduct(reference, candidate)
+    ) {
+      continue;
+    }
+
+    // Keep the reference NDC, then active NDCs, then the best match score
+    const current = bySize.get(packageSize.packageSize);
+    const isPreferred =
+      !current ||
+      (current.ndc !== reference.ndc &&
+        (candidate.active !== current.active
+          ? candidate.active
+          : (candidate.matchScore ?? 0) > (current.matchScore ?? 0)));
+    if (isPreferred) {
+      bySize.set(packageSize.packageSize, candidate);
+    }
+  }
+
+  const options = [...bySize.entries()]
+    .map(([packageSize, candidate]) => ({ candidate, packageSize }))
+    .sort((a, b) => b.packageSize - a.packageSize);
+  return options.some((option) => option.candidate.active)
+    ? options.filter((option) => option.candidate.active)
+    : options;
+}
+
+/**
+ * Smallest power of ten (up to 100) that makes every value a whole number.
+ */
+function resolveScale(values: number[]): number {
+  return (
+    [1, 10, 100].find((scale) =>
+      values.every(
+        (value) => Math.abs(value * scale - Math.round(value * scale)) < 1e-6,
+      ),
+    ) ?? 100
+  );
+}
+
+/**
+ * Finds the package combination for a quantity under a policy.
+ * Package counts are searched exactly (fewest packages for every reachable total), then:
+ * "exact_fit" takes the total equal to the quantity, "never_short" the smallest total that covers it,
+ * and "fewest_packages" the covering total with the fewest packages (least waste on ties).
+ * The smallest covering total wastes less than the smallest package, so "never_short" searches
+ * no further; "fewest_packages" searches up to waste less than the largest package, which bounds
+ * any combination with no package to spare (e.g., 1×1000 rather than 5×100 + 5×90 for 950).
+ *
+ * @param quantity - Quantity to dispense
+ * @param quantityUnit - Dispense unit
+ * @param reference - Product the combination is built for (usually the selected NDC)
+ * @param candidates - NDC candidates offering other package sizes
+ * @param policy - Combination policy (defaults to "never_short")
+ * @returns Package combination, or the reason no combination meets the policy
+ */
+export function optimizePackageCombination(
+  quantity: number,
+  quantityUnit: string,
+  reference: NdcCandidate,
+  candidates: NdcCandidate[],
+  policy: PackagePolicy = "never_short",
+): PackageCombinationResult {
+  const options = getPackageOptions(reference, candidates, quantityUnit);
+  if (!(quantity > 0) || options.length === 0) {
+    return { combination: null, failure: "no_package_sizes" };
+  }
+
+  const scale = resolveScale(options.map((option) => option.packageSize));
+  const sizes = options.map((option) => Math.round(option.packageSize * scale));
+  const target = Math.ceil(quantity * scale - 1e-6);
+  const isExactTarget = Math.abs(quantity * scale - target) < 1e-6;
+  const limit =
+    target +
+    (policy === "fewest_packages" ? Math.max(...sizes) : Math.min(...sizes)) -
+    1;
+  if (policy === "exact_fit" && !isExactTarget) {
+    return { combination: null, failure: "no_exact_fit" };
+  }
+  if (limit > MAX_SEARCH_STEPS) {
+    return { combination: null, failure: "search_limit" };
+  }
+
+  // fewest[t] = fewest packages totalling exactly t; lastOption[t] = option added last
+  const fewest = new Array<number>(limit + 1).fill(Infinity);
+  const lastOption = new Array<number>(limit + 1).fill(-1);
+  fewest[0] = 0;
+  for (let total = 1; total <= limit; total++) {
+    sizes.forEach((size, index) => {
+      const previous =
+        total >= size ? (fewest[total - size] ?? Infinity) : Infinity;
+      if (previous + 1 < (fewest[total] ?? Infinity)) {
+        fewest[total] = previous + 1;
+        lastOption[total] = index;
+      }
+    });
+  }
+
+  let chosenTotal: number | undefined;
+  if (policy === "exact_fit") {
+    chosenTotal = Number.isFinite(fewest[target]) ? target : undefined;
+  } else {
+    for (let total = target; total <= limit; total++) {
+      const count = fewest[total] ?? Infinity;
+      if (!Number.isFinite(count)) {
+        continue;
+      }
+      if (policy === "never_short") {
+        chosenTotal = total;
+        break;
+      }
+      if (
+        chosenTotal === undefined ||
+        count < (fewest[chosenTotal] ?? Infinity)
+      ) {
+        chosenTotal = total;
+      }
+    }
+  }
+  if (chosenTotal === undefined) {
+    return { combination: null, failure: "no_exact_fit" };
+  }
+
+  // Walk back through the search to count each package size
+  const counts = new Array<number>(options.length).fill(0);
+  for (let total = chosenTotal; total > 0; ) {
+    const index = lastOption[total] ?? -1;
+    const size = sizes[index];
+    if (size === undefined) {
+      return { combination: null, failure: "no_exact_fit" };
+    }
+    counts[index] = (counts[index] ?? 0) + 1;
+    total -= size;
+  }
+
+  const lines = options.flatMap((option, index) => {
+    const count = counts[index] ?? 0;
+    return count > 0 ? [{ ...option, count }] : [];
+  });
+  const totalQuantity = chosenTotal / scale;
+
+  return {
+    combination: {
+      policy,
+      lines,
+      quantity,
+      quantityUnit,
+      totalQuantity,
+      packageCount: lines.reduce((sum, line) => sum + line.count, 0),
+      waste: totalQuantity - quantity,
+    },
+  };
+}
@@ -0,0 +1,121 @@
+/**
+ * FDA package description parsing.
+ * Package descriptions list nested packaging from the outside in, separated by ">", e.g.
+ * "10 BLISTER PACK in 1 CARTON > 10 TABLET in 1 BLISTER PACK" or "1 VIAL in 1 CARTON > 10 mL in 1 VIAL".
+ * Each level is parsed, and the level quantities are multiplied to get the dispensable units
+ * in one outer package.
+ */
+
+import { divide, multiply, toNumber } from "./decimal";
+
+/**
+ * One level of packaging, e.g. "10 TABLET in 1 BLISTER PACK".
+ */
+export type PackageLevel = {
+  quantity: number; // Contents per container at this level
+  unit: string; // Contents as written, lowercased (e.g., "tablet, film coated", "blister pack", "ml")
+  container: string; // Container as written, lowercased (e.g., "blister pack", "carton")
+  ndc?: string; // Package NDC given in parentheses, if any
+};
+
+/**
+ * Parsed package hierarchy.
+ */
+export type PackageHierarchy = {
+  levels: PackageLevel[]; // Outermost first
+  outerContainer: string; // Container sold as one package (e.g., "carton")
+  innerUnit: string; // Dispensable unit of the innermost level (e.g., "tablet", "ml")
+  totalQuantity: number; // Dispensable units in one outer package
+};
+
+/**
+ * One packaging level: "<quantity> <unit> in <count> <container> (<ndc>)".
+ * Units and containers may be several words ("BLISTER PACK", "BOTTLE, DROPPER").
+ */
+const LEVEL_PATTERN =
+  /^\s*(\d*\.?\d+)\s+(.+?)\s+in\s+(\d+(?:\.\d+)?)\s+(.+?)\s*(?:\(([\d-]+)\))?\s*$/i;
+
+/**
+ * Parses one packaging level.
+ *
+ * @returns Parsed level, or null if the text is not a packaging level
+ */
+function parseLevel(text: string): PackageLevel | null {
+  const match = LEVEL_PATTERN.exec(text);
+  const quantity = match ? Number.parseFloat(match[1] ?? "") : Number.NaN;
+  const containerCount = match ? Number.parseFloat(match[3] ?? "") : Number.NaN;
+  if (!match || !(quantity > 0) || !(containerCount > 0)) {
+    return null;
+  }
+
+  return {
+    // "2 TABLET in 2 BLISTER" is one tablet per blister
+    quantity: toNumber(divide(quantity, containerCount)),
+    unit: (match[2] ?? "").trim().toLowerCase(),
+    container: (match[4] ?? "").trim().toLowerCase(),
+    ...(match[5] && { ndc: match[5] }),
+  };
+}
+
+/**
+ * Parses an FDA package description into its packaging levels and total dispensable units.
+ * Kit descriptions list components after "*"; only the first component is parsed.
+ *
+ * @param packageDescription - FDA package description
+ * @returns Package hierarchy, or null if no level can be parsed
+ */
+export function parsePackageHierarchy(
+  packageDescription: string | undefined,
+): PackageHierarchy | null {
+  if (!packageDescription) {
+    return null;
+  }
+
+  const [firstComponent = ""] = packageDescription.split("*");
+  const levels: PackageLevel[] = [];
+  for (const part of firstComponent.split(">")) {
+    const level = parseLevel(part);
+    if (!level) {
+      break;
+    }
+    levels.push(level);
+  }
+
+  const outer = levels[0];
+  const inner = levels[levels.length - 1];
+  if (!outer || !inner) {
+    return null;
+  }
+
+  return {
+    levels,
+    outerContainer: outer.container,
+    // Dosage form qualifiers are dropped ("tablet, film coated" -> "tablet")
+    innerUnit: (inner.unit.split(",")[0] ?? inner.unit).trim(),
+    // Exact, so fractional levels (5 × 0.1 mL) do not carry floating-point noise
+    totalQuantity: toNumber(multiply(...levels.map((level) => level.quantity))),
+  };
+}
+
+/**
+ * Describes a nested package for display, e.g. "1 carton = 10 blister pack × 10 tablet".
+ *
+ * @param hierarchy - Parsed package hierarchy
+ * @returns Description, or undefined for single-level packages
+ */
+export function describePackageHierarchy(
+  hierarchy: PackageHierarchy,
+): string | undefined {
+  if (hierarchy.levels.length < 2) {
+    return undefined;
+  }
+
+  const contents = hierarchy.levels
+    .map((level, index) =>
+      index === hierarchy.levels.length - 1
+        ? `${level.quantity} ${hierarchy.innerUnit}`
+        : `${level.quantity} ${level.unit}`,
+    )
+    .join(" × ");
+  return `1 ${hierarchy.outerContainer} = ${contents} (${hierarchy.totalQuantity} ${hierarchy.innerUnit})`;
+}
@@ -2,9 +2,68 @@
  * Quantity calculation utilities.
  * Computes dispense quantities from normalized SIG and days supply.
  * Detects overfill/underfill vs package size.
+ * Arithmetic is exact in decimal (see decimal.ts); quantities are rounded once, to
+ * QUANTITY_DECIMAL_PLACES with the chosen rounding mode, when the calculation finishes.
  */
 
-import type { NormalizedSig, NdcCandidate, Warning } from "../types";
+import type {
+  DurationSource,
+  MeasuringDevice,
+  NormalizedSig,
+  NdcCandidate,
+  RoundingMode,
+  SigSchedule,
+  Warning,
+} from "../types";
+import {
+  applySiteMultiplier,
+  toNumericSig,
+  type ExactSig,
+} from "./administrationSite";
+import {
+  planBeyondUseFills,
+  resolveBeyondUseRule,
+  type BeyondUseLimit,
+} from "./beyondUse";
+import {
+  add,
+  compare,
+  divide,
+  multiply,
+  roundRational,
+  subtract,
+  toNumber,
+  toRational,
+  type Rational,
+} from "./decimal";
+import { convertDropsToMilliliters, type DropConversion } from "./drops";
+import {
+  formatDoseAmount,
+  formatQuantity,
+  MEASURING_DEVICE_LABELS,
+} from "./formatters";
+import { isActuationUnit, resolveActuationSupply } from "./inhalers";
+import {
+  estimateInsulinContainers,
+  isInsulin,
+  resolveInsulinSupply,
+  type ExactInsulinEstimate,
+  type InsulinEstimate,
+} from "./insulin";
+import {
+  classifyPackage,
+  roundToWholePackages,
+  type PackageRounding,
+} from "./packageBreakability";
+import { parsePackageHierarchy } from "./packageParser";
+import { countAdministrations } from "./sigSchedule";
+import {
+  convertSigToDispensableUnits,
+  isStrengthUnit,
+  isMultipleOf,
+  type StrengthConversion,
+} from "./strength";
+import { detectSplitTabletWarning } from "./tabletSplitting";
 
 /**
  * Unit normalization map: maps common unit variations to standardized singular forms.
@@ -40,6 +99,10 @@ const UNIT_NORMALIZATION: Record<string, string> = {
   units: "unit",
   drop: "drop",
   drops: "drop",
+  gtt: "drop",
+  gtts: "drop",
+  patch: "patch",
+  patches: "patch",
   puff: "puff",
   puffs: "puff",
   spray: "spray",
@@ -49,7 +112,7 @@ const UNIT_NORMALIZATION: Record<string, string> = {
 /**
  * Normalizes a unit string to a standard singular form.
  */
-function normalizeUnit(unit: string): string {
+export function normalizeUnit(unit: string): string {
   const normalized = unit.toLowerCase().trim();
   return UNIT_NORMALIZATION[normalized] ?? normalized;
 }
@@ -62,7 +125,10 @@ function normalizeUnit(unit: string): string {
  * @param fromUnit - Source unit
  * @returns Converted value in milliliters, or original value if conversion not needed/possible
  */
-function convertToMilliliters(value: number, fromUnit: string): number {
+function convertToMilliliters(
+  value: number | Rational,
+  fromUnit: string,
+): number | Rational {
   const normalizedUnit = normalizeUnit(fromUnit);
   
   // Conversion factors to milliliters
@@ -84,7 +150,7 @@ function convertToMilliliters(value: number, fromUnit: string): number {
 
   const factor = conversions[normalizedUnit];
   if (factor) {
-    return value * factor;
+    return multiply(value, factor);
   }
 
   // No conversion needed or unit not recognized
@@ -93,8 +159,12 @@ function convertToMilliliters(value: number, fromUnit: string): number {
 
 /**
  * Handles special dosage form calculations.
- * For insulin: units are already correct, no conversion needed.
- * For inhalers: puffs/sprays are counted, no conversion needed.
+ * For insulin: units are already correct, no conversion needed (pens and vials
+ * to dispense are estimated afterwards from the concentration and volume).
+ * For inhalers: puffs/sprays are counted, no conversion needed (inhalers and bottles
+ * to dispense are estimated afterwards from actuations per unit).
+ * For patches: patches are counted, no conversion needed (multi-day wear is
+ * handled by the interval schedule).
  * For liquids: may need unit conversion (teaspoon to ml, etc.).
  *
  * @param dose - Dose value
@@ -103,10 +173,10 @@ function convertToMilliliters(value: number, fromUnit: string): number {
  * @returns Converted dose and unit (if conversion applied)
  */
 function handleSpecialDosageForm(
-  dose: number,
+  dose: number | Rational,
   doseUnit: string,
-  dosageForm: "liquid" | "insulin" | "inhaler" | undefined,
-): { dose: number; doseUnit: string } {
+  dosageForm: NormalizedSig["dosageForm"],
+): { dose: number | Rational; doseUnit: string } {
   if (!dosageForm) {
     return { dose, doseUnit };
   }
@@ -125,6 +195,11 @@ function handleSpecialDosageForm(
     return { dose, doseUnit };
   }
 
+  // Patch: whole patches are already correct, no conversion
+  if (dosageForm === "patch") {
+    return { dose, doseUnit: normalizeUnit(doseUnit) };
+  }
+
   // Liquid: convert to milliliters if needed
   if (dosageForm === "liquid") {
     const normalized = normalizeUnit(doseUnit);
@@ -141,72 +216,893 @@ function handleSpecialDosageForm(
   return { dose, doseUnit };
 }
 
+/**
+ * Policy for choosing the dispense quantity when the SIG states a dose or frequency range.
+ * "max" is the default because payers validate days supply against the maximum use.
+ */
+export type DoseRangePolicy = "min" | "max" | "midpoint";
+
+/**
+ * Options for quantity calculation.
+ */
+export type QuantityOptions = {
+  rangePolicy?: DoseRangePolicy; // Defaults to "max"
+  durationSource?: DurationSource; // Defaults to "daysSupply"
+  product?: NdcCandidate | null; // Product whose strength converts mass doses to tablets/capsules; also sets drops per mL and container size
+  measuringDevice?: MeasuringDevice; // Oral liquid doses are rounded to its precision (defaults to "oral_syringe")
+  roundingMode?: RoundingMode; // Rounding of the final quantities (defaults to DEFAULT_ROUNDING_MODE)
+};
+
+/**
+ * Decimal places kept in calculated quantities; NCPDP metric decimal quantities allow three.
+ */
+export const QUANTITY_DECIMAL_PLACES = 3;
+
+/**
+ * Rounding mode for calculated quantities when none is chosen.
+ */
+export const DEFAULT_ROUNDING_MODE: RoundingMode = "half_up";
+
+/**
+ * Smallest volume each measuring device can measure, in mL.
+ */
+export const MEASURING_DEVICE_PRECISION_ML: Record<
+  Exclude<MeasuringDevice, "none">,
+  number
+> = {
+  oral_syringe: 0.1,
+  large_oral_syringe: 0.5,
+  dosing_cup: 2.5,
+};
+
+/**
+ * Measuring device assumed when none is chosen.
+ */
+export const DEFAULT_MEASURING_DEVICE: MeasuringDevice = "oral_syringe";
+
+/**
+ * Rounding a liquid dose by more than this percentage is not applied: the theoretical dose
+ * is kept for the quantity and a warning suggests a finer measuring device.
+ */
+export const DOSE_ROUNDING_WARNING_PERCENT = 5;
+
+/**
+ * Oral liquid dose rounded to the measuring device precision.
+ */
+export type DoseRounding = {
+  device: Exclude<MeasuringDevice, "none">;
+  precisionMl: number;
+  theoreticalDose: number; // Calculated mL per dose before rounding
+  roundedDose: number; // mL per dose measured with the device
+  changePercent: number; // Absolute change relative to the theoretical dose
+  applied: boolean; // False when the device cannot measure the dose; the theoretical dose is used
+  suggestedDevice?: Exclude<MeasuringDevice, "none">; // Finer device that measures the dose, if any
+};
+
+/**
+ * Resolves the days supply used for calculation.
+ * Uses the SIG duration ("for 10 days") when the duration source is "sig" and the SIG states one,
+ * otherwise the entered days supply.
+ *
+ * @param normalizedSig - Normalized SIG
+ * @param daysSupply - Entered days supply
+ * @param durationSource - Which duration drives the calculation
+ * @returns Days supply for calculation
+ */
+export function resolveDaysSupply(
+  normalizedSig: NormalizedSig | null,
+  daysSupply: number,
+  durationSource: DurationSource = "daysSupply",
+): number {
+  if (durationSource === "sig" && normalizedSig?.durationDays !== undefined) {
+    return normalizedSig.durationDays;
+  }
+  return daysSupply;
+}
+
+/**
+ * Quantity contributed by one taper/titration phase.
+ */
+export type PhaseQuantity = {
+  dose: number;
+  doseUnit: string;
+  frequencyPerDay: number;
+  durationDays: number;
+  quantityValue: number;
+};
+
+/**
+ * Containers of the product package needed to cover the quantity.
+ * For inhalers and nasal sprays, size is the usable actuations after priming.
+ */
+export type ContainerEstimate = {
+  count: number; // Whole containers needed (e.g., 2 bottles)
+  size: number; // Usable quantity per container (e.g., 5)
+  unit: string; // Unit of the container size (e.g., "ml", "puff")
+  daysPerContainer: number; // Days one container lasts at the calculated daily use
+  containerLabel?: string; // Dispensed unit for inhalers and sprays (e.g., "inhaler")
+  labeledSize?: number; // Labeled actuations per container, before priming
+  primingPerContainer?: number; // Actuations wasted priming each new container
+};
+
 /**
  * Result of quantity calculation.
+ * minQuantityValue/maxQuantityValue are equal when the SIG has no dose or frequency range.
+ * daysSupply is the input days supply, or the total phase duration for multi-step SIGs.
  */
 export type QuantityResult = {
-  quantityValue: number;
+  quantityValue: number; // Dispense quantity chosen by the range policy
   quantityUnit: string;
+  minQuantityValue: number;
+  maxQuantityValue: number;
+  rangePolicy: DoseRangePolicy;
+  daysSupply: number;
+  phases?: PhaseQuantity[]; // Per-phase breakdown for multi-step SIGs
+  administrations?: number; // Doses within the days supply for non-daily schedules
+  strengthConversion?: StrengthConversion; // Mass dose converted to dispensable units
+  dropConversion?: DropConversion; // Drop dose converted to mL
+  containers?: ContainerEstimate; // Product containers needed (e.g., eye drop bottles)
+  insulin?: InsulinEstimate; // Insulin pens or vials with priming and discard rules
+  doseRounding?: DoseRounding; // Oral liquid dose rounded to a measurable volume
+  beyondUse?: BeyondUseLimit; // Days supply capped by a suspension beyond-use date, with split fills
+  packageRounding?: PackageRounding; // Quantity rounded up to whole packages of a non-breakable product
 } | null;
 
 /**
- * Calculates dispense quantity from normalized SIG and days supply.
- * Formula: quantity = dose × frequencyPerDay × daysSupply
+ * Container estimate with the exact days per container, before the result is rounded.
+ */
+export type ExactContainerEstimate = Omit<
+  ContainerEstimate,
+  "daysPerContainer"
+> & {
+  daysPerContainer: Rational;
+};
+
+/**
+ * Phase quantity with the exact dose and quantity, before the result is rounded.
+ */
+type ExactPhaseQuantity = Omit<PhaseQuantity, "dose" | "quantityValue"> & {
+  dose: Rational;
+  quantityValue: Rational;
+};
+
+/**
+ * Quantity result with exact quantities, container days, and insulin totals.
+ * roundQuantities converts it to a QuantityResult once every step is done.
+ */
+type ExactQuantityResult = Omit<
+  NonNullable<QuantityResult>,
+  | "quantityValue"
+  | "minQuantityValue"
+  | "maxQuantityValue"
+  | "phases"
+  | "containers"
+  | "insulin"
+> & {
+  quantityValue: Rational;
+  minQuantityValue: Rational;
+  maxQuantityValue: Rational;
+  phases?: ExactPhaseQuantity[];
+  containers?: ExactContainerEstimate;
+  insulin?: ExactInsulinEstimate;
+};
+
+/**
+ * Smaller of two values, exactly.
+ */
+function minOf(a: number | Rational, b: number | Rational): Rational {
+  return toRational(compare(a, b) <= 0 ? a : b);
+}
+
+/**
+ * Picks the dispense quantity from a min/max range according to the policy.
+ */
+function applyRangePolicy(
+  minQuantity: Rational,
+  maxQuantity: Rational,
+  policy: DoseRangePolicy,
+): Rational {
+  if (policy === "min") {
+    return minQuantity;
+  }
+  if (policy === "midpoint") {
+    return divide(add(minQuantity, maxQuantity), 2);
+  }
+  return maxQuantity;
+}
+
+/**
+ * Returns the stated daily maximum if it is expressed in the dose unit, otherwise undefined.
+ * Maximums in a different unit (e.g., "max 3 g/day" for a tablet dose) cannot be applied without strength data.
+ */
+function getApplicableMaxDailyDose(
+  normalizedSig: ExactSig,
+): number | Rational | undefined {
+  const { maxDailyDose, maxDailyDoseUnit, doseUnit } = normalizedSig;
+  if (maxDailyDose === undefined || !maxDailyDoseUnit || !doseUnit) {
+    return undefined;
+  }
+  return normalizeUnit(maxDailyDoseUnit) === normalizeUnit(doseUnit)
+    ? maxDailyDose
+    : undefined;
+}
+
+/**
+ * Resolves the minimum and maximum amount used per day, in dose units.
+ * Scheduled SIGs use dose × frequencyPerDay (low × low, high × high for ranges),
+ * or the total daily dose for compound SIGs.
+ * A stated daily maximum caps the amount; for PRN SIGs it is used as the maximum daily amount.
  *
- * @param normalizedSig - Normalized SIG with dose, doseUnit, and frequencyPerDay
- * @param daysSupply - Number of days the prescription should last
- * @returns Quantity result with value and unit, or null if insufficient data
+ * @param normalizedSig - Normalized SIG
+ * @returns Daily amount bounds, or null if the SIG lacks a dose or any way to determine daily use
  */
-export function calculateQuantity(
-  normalizedSig: NormalizedSig | null,
+function resolveDailyAmounts(
+  normalizedSig: ExactSig,
+): { min: Rational; max: Rational } | null {
+  const { dose, frequencyPerDay } = normalizedSig;
+
+  // Sliding-scale SIGs dispense for the stated daily maximum; without one there is no defensible amount
+  if (normalizedSig.slidingScale) {
+    const maxDailyDose = getApplicableMaxDailyDose(normalizedSig);
+    return maxDailyDose !== undefined
+      ? { min: toRational(maxDailyDose), max: toRational(maxDailyDose) }
+      : null;
+  }
+
+  if (dose === undefined) {
+    return null;
+  }
+
+  // Fall back to the single values when no range was parsed
+  const doseMin = normalizedSig.doseMin ?? dose;
+  const doseMax = normalizedSig.doseMax ?? dose;
+  // Compound SIGs already total each clause's daily dose
+  const scheduled =
+    normalizedSig.totalDailyDose !== undefined
+      ? {
+          min: toRational(normalizedSig.totalDailyDose),
+          max: toRational(normalizedSig.totalDailyDose),
+        }
+      : frequencyPerDay !== undefined
+      ? {
+          min: multiply(doseMin, normalizedSig.frequencyPerDayMin ?? frequencyPerDay),
+          max: multiply(doseMax, normalizedSig.frequencyPerDayMax ?? frequencyPerDay),
+        }
+      : null;
+
+  const maxDailyDose = getApplicableMaxDailyDose(normalizedSig);
+  if (maxDailyDose === undefined) {
+    return scheduled;
+  }
+
+  // PRN: dispense for use at the stated maximum every day
+  if (normalizedSig.prn) {
+    return {
+      min: minOf(scheduled?.min ?? maxDailyDose, maxDailyDose),
+      max: toRational(maxDailyDose),
+    };
+  }
+
+  if (!scheduled) {
+    return { min: toRational(maxDailyDose), max: toRational(maxDailyDose) };
+  }
+
+  return {
+    min: minOf(scheduled.min, maxDailyDose),
+    max: minOf(scheduled.max, maxDailyDose),
+  };
+}
+
+/**
+ * Calculates quantity for a multi-step (taper/titration) SIG by summing each phase.
+ * Days supply is the total phase duration; an open-ended final phase runs until the
+ * entered days supply is reached.
+ *
+ * @param steps - Ordered SIG phases
+ * @param daysSupply - Entered days supply (used only for an open-ended final phase)
+ * @param dosageForm - Detected dosage form for unit conversion
+ * @returns Quantity result, or null if any phase is invalid
+ */
+function calculateSteppedQuantity(
+  steps: NonNullable<ExactSig["steps"]>,
   daysSupply: number,
-): QuantityResult {
-  if (!normalizedSig) {
+  dosageForm: NormalizedSig["dosageForm"],
+): ExactQuantityResult | null {
+  const phases: ExactPhaseQuantity[] = [];
+  let elapsedDays = 0;
+
+  for (const step of steps) {
+    if (
+      !step.doseUnit ||
+      compare(step.dose, 0) <= 0 ||
+      step.frequencyPerDay <= 0
+    ) {
+      return null;
+    }
+
+    const durationDays =
+      step.durationDays ?? Math.max(0, daysSupply - elapsedDays);
+    const { dose, doseUnit } = handleSpecialDosageForm(
+      step.dose,
+      step.doseUnit,
+      dosageForm,
+    );
+
+    phases.push({
+      dose: toRational(dose),
+      doseUnit: normalizeUnit(doseUnit),
+      frequencyPerDay: step.frequencyPerDay,
+      durationDays,
+      quantityValue: multiply(dose, step.frequencyPerDay, durationDays),
+    });
+    elapsedDays += durationDays;
+  }
+
+  const firstPhase = phases[0];
+  if (!firstPhase || elapsedDays <= 0) {
     return null;
   }
 
-  const { dose, doseUnit, frequencyPerDay } = normalizedSig;
+  const quantityValue = add(...phases.map((phase) => phase.quantityValue));
+
+  return {
+    quantityValue,
+    quantityUnit: firstPhase.doseUnit,
+    minQuantityValue: quantityValue,
+    maxQuantityValue: quantityValue,
+    rangePolicy: "max",
+    daysSupply: elapsedDays,
+    phases,
+  };
+}
+
+/**
+ * Calculates quantity for a non-daily schedule (weekly, every N days, specific weekdays)
+ * as dose × administrations within the days supply, so partial weeks are counted exactly.
+ *
+ * @param normalizedSig - Normalized SIG with dose and doseUnit
+ * @param schedule - Non-daily schedule
+ * @param daysSupply - Number of days the prescription should last
+ * @param rangePolicy - Policy for dose ranges
+ * @returns Quantity result, or null if the dose or schedule is invalid
+ */
+function calculateScheduledQuantity(
+  normalizedSig: ExactSig,
+  schedule: SigSchedule,
+  daysSupply: number,
+  rangePolicy: DoseRangePolicy,
+): ExactQuantityResult | null {
+  const { dose, doseUnit } = normalizedSig;
+  if (dose === undefined || !doseUnit) {
+    return null;
+  }
 
-  // Require dose, doseUnit, and frequencyPerDay for calculation
+  const administrations = countAdministrations(schedule, daysSupply);
+  const doseMin = normalizedSig.doseMin ?? dose;
+  const doseMax = normalizedSig.doseMax ?? dose;
   if (
-    dose === undefined ||
-    doseUnit === undefined ||
-    frequencyPerDay === undefined
+    administrations <= 0 ||
+    compare(doseMin, 0) <= 0 ||
+    compare(doseMax, 0) <= 0
   ) {
     return null;
   }
 
+  const { dose: adjustedDoseMin, doseUnit: adjustedDoseUnit } =
+    handleSpecialDosageForm(doseMin, doseUnit, normalizedSig.dosageForm);
+  const { dose: adjustedDoseMax } = handleSpecialDosageForm(
+    doseMax,
+    doseUnit,
+    normalizedSig.dosageForm,
+  );
+
+  const minQuantityValue = multiply(adjustedDoseMin, administrations);
+  const maxQuantityValue = multiply(adjustedDoseMax, administrations);
+
+  return {
+    quantityValue: applyRangePolicy(
+      minQuantityValue,
+      maxQuantityValue,
+      rangePolicy,
+    ),
+    quantityUnit: normalizeUnit(adjustedDoseUnit),
+    minQuantityValue,
+    maxQuantityValue,
+    rangePolicy,
+    daysSupply,
+    administrations,
+  };
+}
+
+/**
+ * Calculates the exact quantity for a SIG already expressed in dispensable units.
+ *
+ * @param normalizedSig - Normalized SIG
+ * @param daysSupply - Resolved days supply
+ * @param rangePolicy - Policy for dose/frequency ranges
+ * @returns Exact quantity result, or null if insufficient data
+ */
+function calculateSigQuantity(
+  normalizedSig: ExactSig,
+  daysSupply: number,
+  rangePolicy: DoseRangePolicy,
+): ExactQuantityResult | null {
+  if (normalizedSig.steps && normalizedSig.steps.length > 0) {
+    return Number.isFinite(daysSupply) && daysSupply > 0
+      ? calculateSteppedQuantity(
+          normalizedSig.steps,
+          daysSupply,
+          normalizedSig.dosageForm,
+        )
+      : null;
+  }
+
+  // Scheduled (non-PRN) weekly, every-N-days, and weekday SIGs count actual administrations
+  if (normalizedSig.schedule && !normalizedSig.prn) {
+    return Number.isFinite(daysSupply) && daysSupply > 0
+      ? calculateScheduledQuantity(
+          normalizedSig,
+          normalizedSig.schedule,
+          daysSupply,
+          rangePolicy,
+        )
+      : null;
+  }
+
+  const { doseUnit } = normalizedSig;
+
+  // Require dose, doseUnit, and a frequency (or PRN daily maximum) for calculation
+  const dailyAmounts = resolveDailyAmounts(normalizedSig);
+  if (doseUnit === undefined || !dailyAmounts) {
+    return null;
+  }
+
   // Require valid numeric values
   if (
-    !Number.isFinite(dose) ||
-    !Number.isFinite(frequencyPerDay) ||
-    !Number.isFinite(daysSupply) ||
-    dose <= 0 ||
-    frequencyPerDay <= 0 ||
-    daysSupply <= 0
+    !(Number.isFinite(daysSupply) && daysSupply > 0) ||
+    ![dailyAmounts.min, dailyAmounts.max].every((value) => compare(value, 0) > 0)
   ) {
     return null;
   }
 
   // Handle special dosage forms (unit conversion if needed)
-  const { dose: adjustedDose, doseUnit: adjustedDoseUnit } = handleSpecialDosageForm(
-    dose,
+  const { dose: adjustedDailyMin, doseUnit: adjustedDoseUnit } =
+    handleSpecialDosageForm(dailyAmounts.min, doseUnit, normalizedSig.dosageForm);
+  const { dose: adjustedDailyMax } = handleSpecialDosageForm(
+    dailyAmounts.max,
     doseUnit,
     normalizedSig.dosageForm,
   );
 
-  // Calculate quantity
-  const quantityValue = adjustedDose * frequencyPerDay * daysSupply;
+  // Calculate quantity bounds
+  const minQuantityValue = multiply(adjustedDailyMin, daysSupply);
+  const maxQuantityValue = multiply(adjustedDailyMax, daysSupply);
 
   // Normalize unit to singular form
   const quantityUnit = normalizeUnit(adjustedDoseUnit);
 
   return {
-    quantityValue,
+    quantityValue: applyRangePolicy(
+      minQuantityValue,
+      maxQuantityValue,
+      rangePolicy,
+    ),
     quantityUnit,
+    minQuantityValue,
+    maxQuantityValue,
+    rangePolicy,
+    daysSupply,
+  };
+}
+
+/**
+ * SIG expressed in dispensable units, with the conversions that were applied.
+ */
+export type DispensableSig = {
+  sig: NormalizedSig;
+  strengthConversion?: StrengthConversion;
+  dropConversion?: DropConversion;
+  doseRounding?: DoseRounding;
+};
+
+/**
+ * Rounds a volume to the nearest multiple of the device precision.
+ */
+function roundToPrecision(
+  volumeMl: number | Rational,
+  precisionMl: number,
+): Rational {
+  const increments = roundRational(divide(volumeMl, precisionMl), 0, "half_up");
+  return multiply(increments, precisionMl);
+}
+
+/**
+ * Percentage change from rounding a volume to the device precision.
+ */
+function roundingChangePercent(
+  volumeMl: number | Rational,
+  precisionMl: number,
+): number {
+  return Math.abs(
+    toNumber(
+      multiply(
+        divide(subtract(roundToPrecision(volumeMl, precisionMl), volumeMl), volumeMl),
+        100,
+      ),
+    ),
+  );
+}
+
+/**
+ * Whether a device can measure a volume: at least one increment, and rounding changes it
+ * by no more than DOSE_ROUNDING_WARNING_PERCENT.
+ */
+function isMeasurable(
+  volumeMl: number | Rational,
+  precisionMl: number,
+): boolean {
+  return (
+    compare(volumeMl, precisionMl) >= 0 &&
+    roundingChangePercent(volumeMl, precisionMl) <= DOSE_ROUNDING_WARNING_PERCENT
+  );
+}
+
+/**
+ * Rounds a volume the device can measure; other volumes are kept as calculated.
+ */
+function roundIfMeasurable(
+  volumeMl: number | Rational,
+  precisionMl: number,
+): number | Rational {
+  return isMeasurable(volumeMl, precisionMl)
+    ? roundToPrecision(volumeMl, precisionMl)
+    : volumeMl;
+}
+
+/**
+ * Rounds oral liquid doses (mL) to what the measuring device can measure,
+ * e.g. 3.37 mL to 3.4 mL with an oral syringe or 4.9 mL to 5 mL with a dosing cup.
+ * Doses below one device increment, or that rounding would change by more than
+ * DOSE_ROUNDING_WARNING_PERCENT (1 mL or 3.37 mL with a dosing cup), are kept as calculated
+ * and the rounding is reported as not applied, with a finer device that measures the dose.
+ * Dose ranges, clauses, and phases in mL are rounded the same way.
+ * Drops converted to mL and non-oral routes are not rounded.
+ *
+ * @param normalizedSig - SIG in dispensable units, with exact doses
+ * @param device - Measuring device
+ * @returns SIG with measurable doses and the rounding applied to the headline dose
+ */
+function roundToMeasurableVolume(
+  normalizedSig: ExactSig,
+  device: MeasuringDevice,
+): { sig: ExactSig; rounding?: DoseRounding } {
+  const { dose, doseUnit, route } = normalizedSig;
+  if (
+    device === "none" ||
+    dose === undefined ||
+    compare(dose, 0) <= 0 ||
+    doseUnit !== "ml" ||
+    (route !== undefined && route !== "oral")
+  ) {
+    return { sig: normalizedSig };
+  }
+
+  const precisionMl = MEASURING_DEVICE_PRECISION_ML[device];
+  const round = (value: number | Rational | undefined) =>
+    value !== undefined ? roundIfMeasurable(value, precisionMl) : undefined;
+  const roundedDose = roundToPrecision(dose, precisionMl);
+  const applied = isMeasurable(dose, precisionMl);
+  // Devices from finest to coarsest; the coarsest one that measures the dose is suggested
+  const suggestedDevice = applied
+    ? undefined
+    : (
+        Object.entries(MEASURING_DEVICE_PRECISION_ML) as Array<
+          [Exclude<MeasuringDevice, "none">, number]
+        >
+      )
+        .filter(
+          ([, precision]) =>
+            precision < precisionMl && isMeasurable(dose, precision),
+        )
+        .sort(([, a], [, b]) => b - a)[0]?.[0];
+
+  return {
+    sig: {
+      ...normalizedSig,
+      dose: applied ? roundedDose : dose,
+      doseMin: round(normalizedSig.doseMin),
+      doseMax: round(normalizedSig.doseMax),
+      clauses: normalizedSig.clauses?.map((clause) =>
+        clause.doseUnit === "ml"
+          ? { ...clause, dose: roundIfMeasurable(clause.dose, precisionMl) }
+          : clause,
+      ),
+      steps: normalizedSig.steps?.map((step) =>
+        (step.doseUnit ?? doseUnit) === "ml"
+          ? { ...step, dose: roundIfMeasurable(step.dose, precisionMl) }
+          : step,
+      ),
+      totalDailyDose:
+        normalizedSig.clauses &&
+        add(
+          ...normalizedSig.clauses.map((clause) =>
+            multiply(
+              clause.doseUnit === "ml"
+                ? roundIfMeasurable(clause.dose, precisionMl)
+                : clause.dose,
+              clause.frequencyPerDay,
+            ),
+          ),
+        ),
+    },
+    rounding: {
+      device,
+      precisionMl,
+      theoreticalDose: toNumber(dose),
+      roundedDose: toNumber(roundedDose),
+      changePercent: roundingChangePercent(dose, precisionMl),
+      applied,
+      ...(suggestedDevice && { suggestedDevice }),
+    },
+  };
+}
+
+/**
+ * Converts a SIG to dispensable units with exact doses, for the quantity math.
+ */
+function toExactDispensableSig(
+  normalizedSig: NormalizedSig,
+  product: NdcCandidate | null | undefined,
+  measuringDevice: MeasuringDevice = DEFAULT_MEASURING_DEVICE,
+): Omit<DispensableSig, "sig"> & { sig: ExactSig } {
+  const { sig: strengthSig, conversion: strengthConversion } = isInsulin(
+    normalizedSig,
+    product,
+  )
+    ? { sig: normalizedSig, conversion: undefined }
+    : convertSigToDispensableUnits(normalizedSig, product);
+  const { sig: dropSig, conversion: dropConversion } =
+    convertDropsToMilliliters(applySiteMultiplier(strengthSig), product);
+  const { sig, rounding: doseRounding } = dropConversion
+    ? { sig: dropSig, rounding: undefined }
+    : roundToMeasurableVolume(dropSig, measuringDevice);
+  return { sig, strengthConversion, dropConversion, doseRounding };
+}
+
+/**
+ * Converts a SIG to the units the product is dispensed in:
+ * strength doses ("500 mg") to tablets, capsules, or mL, per-site doses ("1 drop in each eye")
+ * to doses per administration, and drops to mL. Oral liquid doses are then rounded to a
+ * volume the measuring device can measure.
+ * Insulin stays in units; pens and vials are estimated from the units instead.
+ * Quantity math keeps the converted doses exact; this returns them as numbers for display.
+ *
+ * @param normalizedSig - Normalized SIG
+ * @param product - Selected or candidate NDC product
+ * @param measuringDevice - Device oral liquid doses are measured with
+ * @returns SIG in dispensable units and the conversions applied
+ */
+export function toDispensableSig(
+  normalizedSig: NormalizedSig,
+  product: NdcCandidate | null | undefined,
+  measuringDevice: MeasuringDevice = DEFAULT_MEASURING_DEVICE,
+): DispensableSig {
+  const dispensable = toExactDispensableSig(
+    normalizedSig,
+    product,
+    measuringDevice,
+  );
+  return { ...dispensable, sig: toNumericSig(dispensable.sig) };
+}
+
+/**
+ * Estimates the product containers needed for a quantity and how long each lasts.
+ * Puff and spray quantities use the actuations per inhaler or bottle, less priming.
+ *
+ * @param result - Exact quantity result
+ * @param product - Product whose package description gives the container size
+ * @returns Container estimate, or undefined if the container size is unknown or in another unit
+ */
+function estimateContainers(
+  result: ExactQuantityResult,
+  product: NdcCandidate | null | undefined,
+): ExactContainerEstimate | undefined {
+  if (compare(result.quantityValue, 0) <= 0) {
+    return undefined;
+  }
+  // Days a container lasts: size ÷ (quantity ÷ days supply)
+  const daysFor = (size: number) =>
+    divide(multiply(size, result.daysSupply), result.quantityValue);
+  const containersFor = (size: number) =>
+    toNumber(roundRational(divide(result.quantityValue, size), 0, "ceiling"));
+
+  if (isActuationUnit(result.quantityUnit)) {
+    const supply = resolveActuationSupply(product);
+    const usableActuations = supply
+      ? supply.actuationsPerUnit - supply.primingActuations
+      : 0;
+    if (!supply || usableActuations <= 0) {
+      return undefined;
+    }
+    return {
+      count: containersFor(usableActuations),
+      size: usableActuations,
+      unit: result.quantityUnit,
+      daysPerContainer: daysFor(usableActuations),
+      containerLabel: supply.unitLabel,
+      labeledSize: supply.actuationsPerUnit,
+      primingPerContainer: supply.primingActuations,
+    };
+  }
+
+  const packageSize = parsePackageSize(product?.packageDescription);
+  if (
+    !packageSize ||
+    normalizeUnit(packageSize.packageUnit) !== normalizeUnit(result.quantityUnit)
+  ) {
+    return undefined;
+  }
+
+  return {
+    count: containersFor(packageSize.packageSize),
+    size: packageSize.packageSize,
+    unit: packageSize.packageUnit,
+    daysPerContainer: daysFor(packageSize.packageSize),
+  };
+}
+
+/**
+ * Converts an exact result to numbers, the only place quantities leave exact arithmetic.
+ * Quantities (and phase quantities) are rounded to QUANTITY_DECIMAL_PLACES with the rounding mode;
+ * doses, container days, and insulin totals keep INTERMEDIATE_DECIMAL_PLACES for display.
+ *
+ * @param result - Quantity result with exact quantities
+ * @param mode - Rounding mode
+ * @returns Result with rounded quantities
+ */
+function roundQuantities(
+  result: ExactQuantityResult,
+  mode: RoundingMode,
+): NonNullable<QuantityResult> {
+  const round = (value: Rational) =>
+    toNumber(value, QUANTITY_DECIMAL_PLACES, mode);
+  const { phases, containers, insulin, ...rest } = result;
+
+  return {
+    ...rest,
+    quantityValue: round(result.quantityValue),
+    minQuantityValue: round(result.minQuantityValue),
+    maxQuantityValue: round(result.maxQuantityValue),
+    ...(phases && {
+      phases: phases.map((phase) => ({
+        ...phase,
+        dose: toNumber(phase.dose),
+        quantityValue: round(phase.quantityValue),
+      })),
+    }),
+    containers: containers && {
+      ...containers,
+      daysPerContainer: toNumber(containers.daysPerContainer),
+    },
+    ...(insulin && {
+      insulin: {
+        ...insulin,
+        totalUnits: toNumber(insulin.totalUnits),
+        daysPerContainer: toNumber(insulin.daysPerContainer),
+      },
+    }),
   };
 }
 
+/**
+ * Calculates dispense quantity from normalized SIG and days supply.
+ * Formula: quantity = dose × frequencyPerDay × daysSupply
+ * For dose/frequency ranges, computes the minimum (low dose × low frequency) and
+ * maximum (high dose × high frequency), then picks the dispense quantity by policy.
+ * A stated daily maximum caps the daily amount, and is the daily amount for PRN SIGs.
+ * Multi-step SIGs sum each phase and derive days supply from the total phase duration.
+ * Non-daily schedules use dose × administrations within the days supply.
+ * A SIG duration ("for 10 days") replaces the entered days supply when options.durationSource is "sig".
+ * Strength doses ("500 mg") are converted to tablets or capsules using the product strength.
+ * Per-site doses ("each eye") are multiplied by the number of sites, and drops are converted to mL.
+ * Reconstituted suspensions cover at most their beyond-use date; longer supplies are split into fills.
+ * Quantities are exact until rounded to QUANTITY_DECIMAL_PLACES with options.roundingMode.
+ * Non-breakable packages (inhalers, pens, dropper bottles, tubes) also get the quantity rounded up to
+ * whole packages, with the days supply those packages cover; quantityValue stays the calculated amount.
+ *
+ * @param normalizedSig - Normalized SIG with dose, doseUnit, and frequencyPerDay
+ * @param enteredDaysSupply - Number of days the prescription should last, as entered
+ * @param options - Calculation options (range policy, duration source, product, rounding mode)
+ * @returns Quantity result with value and unit, or null if insufficient data
+ */
+export function calculateQuantity(
+  normalizedSig: NormalizedSig | null,
+  enteredDaysSupply: number,
+  options: QuantityOptions = {},
+): QuantityResult {
+  if (!normalizedSig) {
+    return null;
+  }
+
+  const requestedDaysSupply = resolveDaysSupply(
+    normalizedSig,
+    enteredDaysSupply,
+    options.durationSource,
+  );
+  // Reconstituted suspensions are discarded after their beyond-use date, so one fill covers
+  // at most that many days (multi-step SIGs keep their phase schedule)
+  const beyondUseRule = normalizedSig.steps
+    ? undefined
+    : resolveBeyondUseRule(options.product);
+  const beyondUse = beyondUseRule
+    ? planBeyondUseFills(requestedDaysSupply, beyondUseRule)
+    : undefined;
+  const daysSupply = beyondUse?.effectiveDaysSupply ?? requestedDaysSupply;
+
+  // Convert to dispensable units ("500 mg" -> "2 tablets", "1 drop each eye" -> "0.1 mL")
+  const { sig, strengthConversion, dropConversion, doseRounding } =
+    toExactDispensableSig(
+      normalizedSig,
+      options.product,
+      options.measuringDevice,
+    );
+
+  const result = calculateSigQuantity(
+    sig,
+    daysSupply,
+    options.rangePolicy ?? "max",
+  );
+  if (!result) {
+    return null;
+  }
+
+  // Insulin pens prime before each injection; pens and vials are discarded after opening
+  const insulinSupply = isInsulin(sig, options.product)
+    ? resolveInsulinSupply(options.product)
+    : null;
+  const insulin = insulinSupply
+    ? (estimateInsulinContainers(
+        result.quantityValue,
+        result.daysSupply,
+        sig.frequencyPerDayMax ?? sig.frequencyPerDay ?? 1,
+        insulinSupply,
+      ) ?? undefined)
+    : undefined;
+
+  const containers: ExactContainerEstimate | undefined = insulin
+    ? {
+        count: insulin.containerCount,
+        size: insulin.unitsPerContainer,
+        unit: "unit",
+        daysPerContainer: insulin.daysPerContainer,
+        containerLabel: insulin.device,
+      }
+    : estimateContainers(result, options.product);
+  // Whole packages of a non-breakable product cannot extend a beyond-use date or a stated course
+  const packageRounding = roundToWholePackages(
+    result.quantityValue,
+    result.daysSupply,
+    classifyPackage(options.product),
+    containers,
+    beyondUse?.effectiveDaysSupply ??
+      (normalizedSig.durationDays === daysSupply ? daysSupply : undefined),
+  );
+
+  return roundQuantities(
+    {
+      ...result,
+      ...(strengthConversion && { strengthConversion }),
+      ...(dropConversion && { dropConversion }),
+      ...(doseRounding && { doseRounding }),
+      ...(beyondUse && { beyondUse }),
+      ...(insulin && { insulin }),
+      containers,
+      ...(packageRounding && { packageRounding }),
+    },
+    options.roundingMode ?? DEFAULT_ROUNDING_MODE,
+  );
+}
+
 /**
  * Parsed package size from package description.
  */
@@ -217,7 +1113,8 @@ export type PackageSize = {
 
 /**
  * Parses package size from NDC package description.
- * Handles patterns like "30 TABLET in 1 BOTTLE", "100 ML in 1 BOTTLE", etc.
+ * Nested descriptions ("10 BLISTER PACK in 1 CARTON > 10 TABLET in 1 BLISTER PACK") are
+ * resolved to the total dispensable units in the outer package (100 tablets).
  *
  * @param packageDescription - Package description string from NDC data
  * @returns Parsed package size and unit, or null if parsing fails
@@ -225,32 +1122,15 @@ export type PackageSize = {
 export function parsePackageSize(
   packageDescription: string | undefined,
 ): PackageSize {
-  if (!packageDescription) {
-    return null;
-  }
-
-  // Pattern: "X UNIT in 1 CONTAINER" or "X UNIT in CONTAINER"
-  // Examples: "30 TABLET in 1 BOTTLE", "100 ML in 1 BOTTLE", "60 CAPSULE in 1 BOTTLE"
-  const pattern = /(\d+)\s+([A-Za-z]+)\s+in\s+\d+\s+[A-Za-z]+/i;
-  const match = pattern.exec(packageDescription);
-
-  if (!match) {
-    return null;
-  }
-
-  const packageSize = Number.parseInt(match[1] ?? "", 10);
-  const packageUnitRaw = match[2];
-
-  if (Number.isNaN(packageSize) || packageSize <= 0 || !packageUnitRaw) {
+  const hierarchy = parsePackageHierarchy(packageDescription);
+  if (!hierarchy || !(hierarchy.totalQuantity > 0)) {
     return null;
   }
 
-  // Normalize unit to singular form
-  const packageUnit = normalizeUnit(packageUnitRaw);
-
   return {
-    packageSize,
-    packageUnit,
+    packageSize: hierarchy.totalQuantity,
+    // Normalize unit to singular form
+    packageUnit: normalizeUnit(hierarchy.innerUnit),
   };
 }
 
@@ -261,12 +1141,14 @@ export function parsePackageSize(
  * @param quantityValue - Calculated quantity value
  * @param quantityUnit - Calculated quantity unit
  * @param packageSize - Package size (if available)
+ * @param quantityLabel - How the quantity is described ("Prescribed quantity" in reverse mode)
  * @returns Array of warnings (empty if no issues)
  */
 export function detectOverfillUnderfill(
   quantityValue: number,
   quantityUnit: string,
   packageSize: PackageSize,
+  quantityLabel = "Calculated quantity",
 ): Warning[] {
   const warnings: Warning[] = [];
 
@@ -287,17 +1169,17 @@ export function detectOverfillUnderfill(
   const packageQuantity = packageSize.packageSize;
 
   // Calculate thresholds (5% tolerance)
-  const overfillThreshold = packageQuantity * 1.05;
-  const underfillThreshold = packageQuantity * 0.95;
+  const overfillThreshold = toNumber(multiply(packageQuantity, 1.05));
+  const underfillThreshold = toNumber(multiply(packageQuantity, 0.95));
 
   // Check for overfill (>5% over package size)
   if (calculatedQuantity > overfillThreshold) {
-    const excess = calculatedQuantity - packageQuantity;
+    const excess = toNumber(subtract(calculatedQuantity, packageQuantity));
     const excessPercent = ((excess / packageQuantity) * 100).toFixed(1);
     warnings.push({
       type: "overfill",
       severity: "warning",
-      message: `Calculated quantity (${calculatedQuantity.toFixed(1)} ${quantityUnit}) exceeds package size (${packageQuantity} ${packageSize.packageUnit}) by ${excessPercent}%. Consider using multiple packages or adjusting days supply.`,
+      message: `${quantityLabel} (${calculatedQuantity.toFixed(1)} ${quantityUnit}) exceeds package size (${packageQuantity} ${packageSize.packageUnit}) by ${excessPercent}%. Consider using multiple packages or adjusting days supply.`,
       field: "quantity",
       details: {
         calculatedQuantity,
@@ -310,12 +1192,12 @@ export function detectOverfillUnderfill(
 
   // Check for underfill (<5% under package size)
   if (calculatedQuantity < underfillThreshold) {
-    const shortage = packageQuantity - calculatedQuantity;
+    const shortage = toNumber(subtract(packageQuantity, calculatedQuantity));
     const shortagePercent = ((shortage / packageQuantity) * 100).toFixed(1);
     warnings.push({
       type: "underfill",
       severity: "warning",
-      message: `Calculated quantity (${calculatedQuantity.toFixed(1)} ${quantityUnit}) is ${shortagePercent}% less than package size (${packageQuantity} ${packageSize.packageUnit}). This may result in waste.`,
+      message: `${quantityLabel} (${calculatedQuantity.toFixed(1)} ${quantityUnit}) is ${shortagePercent}% less than package size (${packageQuantity} ${packageSize.packageUnit}). This may result in waste.`,
       field: "quantity",
       details: {
         calculatedQuantity,
@@ -369,8 +1251,12 @@ export function calculateMultiPack(
   }
 
   // Calculate number of full packages needed
-  const packageCount = Math.floor(quantityValue / packageSizeValue);
-  const remainder = quantityValue % packageSizeValue;
+  const packageCount = toNumber(
+    roundRational(divide(quantityValue, packageSizeValue), 0, "floor"),
+  );
+  const remainder = toNumber(
+    subtract(quantityValue, multiply(packageCount, packageSizeValue)),
+  );
 
   return {
     packageCount,
@@ -384,42 +1270,338 @@ export function calculateMultiPack(
  * Convenience function that combines calculation, package parsing, and warning detection.
  *
  * @param normalizedSig - Normalized SIG
- * @param daysSupply - Days supply
+ * @param daysSupply - Entered days supply
  * @param selectedNdc - Selected NDC candidate (optional, for package size comparison)
+ * @param options - Calculation options (range policy, duration source), and the prescribed
+ *   quantity in reverse mode, which is dispensed as written and checked against the package
+ *   in place of the calculated quantity (checks against an entered days supply are skipped)
  * @returns Object with quantity result, package size, multi-pack info, and warnings
  */
 export function computeQuantityWithWarnings(
   normalizedSig: NormalizedSig | null,
   daysSupply: number,
   selectedNdc: NdcCandidate | null,
+  options: QuantityOptions & { dispenseQuantity?: number } = {},
 ): {
   quantity: QuantityResult;
   packageSize: PackageSize;
   multiPack: MultiPackResult;
   warnings: Warning[];
 } {
-  // Calculate quantity
-  const quantity = calculateQuantity(normalizedSig, daysSupply);
+  // Calculate quantity, converting strength doses with the selected product
+  const { dispenseQuantity, ...calculationOptions } = options;
+  const product = options.product ?? selectedNdc;
+  const quantity = calculateQuantity(normalizedSig, daysSupply, {
+    ...calculationOptions,
+    product,
+  });
+  // Reverse mode derives the days supply from the prescribed quantity, so nothing was entered
+  const hasEnteredDaysSupply = dispenseQuantity === undefined;
+  // Dose-dependent checks run on the SIG in dispensable units (tablets rather than mg)
+  const dispensableSig = normalizedSig
+    ? toDispensableSig(normalizedSig, product, options.measuringDevice).sig
+    : null;
 
   // Parse package size if NDC is available
   const packageSize = selectedNdc
     ? parsePackageSize(selectedNdc.packageDescription)
     : null;
 
+  // Non-breakable packages are dispensed whole, so package checks use the rounded quantity;
+  // a prescribed quantity is dispensed as written
+  const dispensedQuantity =
+    dispenseQuantity ??
+    quantity?.packageRounding?.roundedQuantity ??
+    quantity?.quantityValue;
+
   // Calculate multi-pack information
-  const multiPack = quantity && packageSize
-    ? calculateMultiPack(quantity.quantityValue, quantity.quantityUnit, packageSize)
+  const multiPack = quantity && dispensedQuantity !== undefined && packageSize
+    ? calculateMultiPack(dispensedQuantity, quantity.quantityUnit, packageSize)
     : null;
 
-  // Detect overfill/underfill if we have both quantity and package size
   const warnings: Warning[] = [];
-  if (quantity && packageSize) {
-    const overfillUnderfillWarnings = detectOverfillUnderfill(
-      quantity.quantityValue,
-      quantity.quantityUnit,
-      packageSize,
-    );
-    warnings.push(...overfillUnderfillWarnings);
+
+  // PRN SIGs need a daily maximum to compute a defensible quantity
+  if (normalizedSig?.prn && normalizedSig.maxDailyDose === undefined) {
+    warnings.push({
+      type: "prn_no_max",
+      severity: "warning",
+      message: quantity
+        ? "PRN SIG does not state a maximum daily dose. Quantity assumes use at the scheduled frequency every day; confirm the daily maximum with the prescriber."
+        : "PRN SIG does not state a frequency or maximum daily dose. Quantity cannot be calculated; confirm the daily maximum with the prescriber.",
+      field: "sig",
+      details: {
+        prnIndication: normalizedSig.prnIndication,
+      },
+    });
+  }
+
+  // Sliding-scale SIGs need a daily maximum to compute any quantity
+  if (normalizedSig?.slidingScale && normalizedSig.maxDailyDose === undefined) {
+    warnings.push({
+      type: "sliding_scale_no_max",
+      severity: "warning",
+      message:
+        "Sliding-scale SIG does not state a maximum daily dose. Quantity cannot be calculated; obtain the maximum daily units from the prescriber.",
+      field: "sig",
+    });
+  }
+
+  // Per-kg SIGs need the patient weight to compute a dose
+  if (
+    normalizedSig?.weightBasedDose &&
+    normalizedSig.patientWeightKg === undefined
+  ) {
+    warnings.push({
+      type: "missing_weight",
+      severity: "warning",
+      message: `SIG is dosed per kg (${normalizedSig.weightBasedDose.amount} ${normalizedSig.weightBasedDose.unit}/kg/${normalizedSig.weightBasedDose.per}) but no patient weight was entered. Quantity cannot be calculated until the weight is added.`,
+      field: "patientWeight",
+    });
+  }
+
+  // A dose the measuring device cannot measure is kept as calculated and needs a finer device
+  const doseRounding = quantity?.doseRounding;
+  if (doseRounding && !doseRounding.applied) {
+    const device = MEASURING_DEVICE_LABELS[doseRounding.device].toLowerCase();
+    warnings.push({
+      type: "dose_rounding",
+      severity: "warning",
+      message: `Dose of ${formatDoseAmount(doseRounding.theoreticalDose)} mL cannot be measured with the ${device} in ${formatDoseAmount(doseRounding.precisionMl)} mL increments (it would round to ${formatDoseAmount(doseRounding.roundedDose)} mL, a ${formatQuantity(doseRounding.changePercent)}% change). Quantity uses the calculated ${formatDoseAmount(doseRounding.theoreticalDose)} mL dose. ${doseRounding.suggestedDevice ? `Use the ${MEASURING_DEVICE_LABELS[doseRounding.suggestedDevice].toLowerCase()} (${formatDoseAmount(MEASURING_DEVICE_PRECISION_ML[doseRounding.suggestedDevice])} mL increments) instead.` : "Use a finer measuring device or confirm the dose with the prescriber."}`,
+      field: "sig",
+      details: { ...doseRounding },
+    });
+  }
+
+  // A daily maximum in a different unit than the dose cannot be applied
+  if (
+    normalizedSig?.maxDailyDose !== undefined &&
+    dispensableSig &&
+    getApplicableMaxDailyDose(dispensableSig) === undefined
+  ) {
+    warnings.push({
+      type: "unit_mismatch",
+      severity: "info",
+      message: `Daily maximum (${normalizedSig.maxDailyDose} ${normalizedSig.maxDailyDoseUnit ?? ""}) is not in the dose unit (${normalizedSig.doseUnit ?? "unknown"}) and was not applied to the quantity.`,
+      field: "sig",
+      details: {
+        maxDailyDose: normalizedSig.maxDailyDose,
+        maxDailyDoseUnit: normalizedSig.maxDailyDoseUnit,
+        doseUnit: normalizedSig.doseUnit,
+      },
+    });
+  }
+
+  // Strength doses must be a whole (capsule) or whole/half (tablet) multiple of the product strength
+  const conversion = quantity?.strengthConversion;
+  const allowsHalf = conversion?.dispenseUnit === "tablet";
+  if (
+    conversion &&
+    conversion.dispenseUnit !== "ml" &&
+    !isMultipleOf(conversion.unitsPerDose, allowsHalf ? 0.5 : 1)
+  ) {
+    warnings.push({
+      type: "strength_mismatch",
+      severity: "warning",
+      message: `Dose of ${formatQuantity(conversion.doseAmount)} ${conversion.doseAmountUnit} is not a ${allowsHalf ? "whole or half" : "whole"} multiple of the ${conversion.strength} strength (${formatQuantity(conversion.unitsPerDose)} ${conversion.dispenseUnit} per dose). Select a different strength or confirm the dose.`,
+      field: "sig",
+      details: { ...conversion },
+    });
+  }
+
+  // A strength dose without a usable product strength stays in strength units.
+  // Topical gram doses (fingertip units, applied amounts) are not strength doses.
+  if (
+    quantity &&
+    !conversion &&
+    !(normalizedSig && isInsulin(normalizedSig, product)) &&
+    normalizedSig?.route !== "topical" &&
+    isStrengthUnit(normalizedSig?.doseUnit)
+  ) {
+    warnings.push({
+      type: "unit_mismatch",
+      severity: "warning",
+      message: `Dose is in ${normalizedSig?.doseUnit ?? "strength units"} but the product strength could not be resolved, so quantity is reported in ${quantity.quantityUnit}. Select an NDC with a single-ingredient tablet or capsule strength.`,
+      field: "sig",
+      details: {
+        doseUnit: normalizedSig?.doseUnit,
+        strength: product?.strength ?? normalizedSig?.strength,
+      },
+    });
+  }
+
+  // Drop size varies by product; the default drops per mL is an estimate
+  const dropConversion = quantity?.dropConversion;
+  if (dropConversion?.dropsPerMlSource === "default") {
+    warnings.push({
+      type: "other",
+      severity: "info",
+      message: `Drops converted to mL at the default ${dropConversion.dropsPerMl} drops/mL. Drop size varies by product; verify the quantity against the bottle size.`,
+      field: "quantity",
+      details: { ...dropConversion },
+    });
+  }
+
+  // Puff and spray quantities need actuations per unit to be dispensed as inhalers or bottles
+  if (
+    quantity &&
+    product &&
+    isActuationUnit(quantity.quantityUnit) &&
+    !quantity.containers
+  ) {
+    warnings.push({
+      type: "other",
+      severity: "warning",
+      message: `Actuations per unit could not be determined for ${product.productName}, so ${formatQuantity(dispensedQuantity ?? quantity.quantityValue)} ${quantity.quantityUnit}s could not be converted to inhalers or bottles. Check the labeled actuation count and priming sprays.`,
+      field: "ndc",
+      details: {
+        quantityValue: dispensedQuantity ?? quantity.quantityValue,
+        quantityUnit: quantity.quantityUnit,
+        packageDescription: product.packageDescription,
+      },
+    });
+  }
+
+  // Insulin quantities need the concentration and pen/vial volume to be dispensed
+  const insulin = quantity?.insulin;
+  if (
+    quantity &&
+    product &&
+    normalizedSig &&
+    isInsulin(normalizedSig, product) &&
+    !insulin
+  ) {
+    warnings.push({
+      type: "other",
+      severity: "warning",
+      message: `Insulin concentration or pen/vial volume could not be determined for ${product.productName}, so ${formatQuantity(dispensedQuantity ?? quantity.quantityValue)} units could not be converted to pens or vials.`,
+      field: "ndc",
+      details: {
+        strength: product.strength,
+        packageDescription: product.packageDescription,
+      },
+    });
+  }
+
+  // Opened pens and vials are discarded before they are used up
+  if (insulin?.limitedByDiscard) {
+    warnings.push({
+      type: "other",
+      severity: "info",
+      message: `Each ${insulin.device} must be discarded ${insulin.discardDays} days after opening, before its ${formatQuantity(insulin.unitsPerContainer)} units are used. Days supply per ${insulin.device} is capped at ${insulin.discardDays} days.`,
+      field: "daysSupply",
+      details: {
+        device: insulin.device,
+        discardDays: insulin.discardDays,
+        unitsPerContainer: insulin.unitsPerContainer,
+        containerCount: insulin.containerCount,
+      },
+    });
+  }
+
+  // Fractional tablet doses need a scored product
+  warnings.push(...detectSplitTabletWarning(dispensableSig, selectedNdc));
+
+  // SIG course length ("for 10 days") disagrees with the entered days supply
+  const sigDurationDays = normalizedSig?.durationDays;
+  if (
+    hasEnteredDaysSupply &&
+    sigDurationDays !== undefined &&
+    sigDurationDays !== daysSupply
+  ) {
+    const usesSigDuration = options.durationSource === "sig";
+    warnings.push({
+      type: "duration_mismatch",
+      severity: "warning",
+      message: usesSigDuration
+        ? `SIG duration (${formatQuantity(sigDurationDays)} days) differs from the entered days supply (${daysSupply} days). Quantity uses the SIG duration; submit the claim with a ${formatQuantity(sigDurationDays)}-day supply.`
+        : `SIG duration (${formatQuantity(sigDurationDays)} days) differs from the entered days supply (${daysSupply} days). Quantity uses the entered days supply; recalculate with the SIG duration if the course is limited.`,
+      field: "daysSupply",
+      details: {
+        sigDurationDays,
+        enteredDaysSupply: daysSupply,
+        durationSource: options.durationSource ?? "daysSupply",
+      },
+    });
+  }
+
+  // Reconstituted suspensions cannot cover more days than their beyond-use date
+  const beyondUse = quantity?.beyondUse;
+  if (hasEnteredDaysSupply && beyondUse) {
+    warnings.push({
+      type: "beyond_use_date",
+      severity: "warning",
+      message: `${product?.productName ?? "Suspension"} must be discarded ${beyondUse.beyondUseDays} days after reconstitution (stored ${beyondUse.storage === "refrigerate" ? "refrigerated" : "at room temperature"}). Quantity covers ${beyondUse.effectiveDaysSupply} of the requested ${formatQuantity(beyondUse.requestedDaysSupply)} days; split into ${beyondUse.fillDays.length} fills (${beyondUse.fillDays.map((days) => formatQuantity(days)).join(" + ")} days), each reconstituted at pickup.`,
+      field: "daysSupply",
+      details: { ...beyondUse },
+    });
+  }
+
+  // Multi-step SIGs set their own days supply from the phase durations
+  if (
+    hasEnteredDaysSupply &&
+    quantity?.phases &&
+    quantity.daysSupply !== daysSupply
+  ) {
+    warnings.push({
+      type: "other",
+      severity: "info",
+      message: `Multi-step SIG covers ${formatQuantity(quantity.daysSupply)} days across ${quantity.phases.length} phases; quantity uses the phase schedule instead of the entered ${daysSupply}-day supply.`,
+      field: "daysSupply",
+      details: {
+        enteredDaysSupply: daysSupply,
+        phaseDaysSupply: quantity.daysSupply,
+        phaseCount: quantity.phases.length,
+      },
+    });
+  }
+
+  // Note dose/frequency ranges so the dispensed amount can be verified
+  if (quantity && quantity.minQuantityValue !== quantity.maxQuantityValue) {
+    warnings.push({
+      type: "other",
+      severity: "info",
+      message: hasEnteredDaysSupply
+        ? `SIG specifies a range: ${formatQuantity(quantity.minQuantityValue)}-${formatQuantity(quantity.maxQuantityValue)} ${quantity.quantityUnit}. Dispensing ${formatQuantity(quantity.quantityValue)} ${quantity.quantityUnit} (${quantity.rangePolicy} policy).`
+        : `SIG specifies a range: ${formatQuantity(quantity.minQuantityValue)}-${formatQuantity(quantity.maxQuantityValue)} ${quantity.quantityUnit} over ${formatQuantity(quantity.daysSupply)} days. Days supply is based on the ${quantity.rangePolicy} of the range (${quantity.rangePolicy} policy).`,
+      field: "quantity",
+      details: {
+        minQuantityValue: quantity.minQuantityValue,
+        maxQuantityValue: quantity.maxQuantityValue,
+        rangePolicy: quantity.rangePolicy,
+      },
+    });
+  }
+
+  // Non-breakable packages round the quantity up, which changes the days supply on the claim
+  const packageRounding = quantity?.packageRounding;
+  if (hasEnteredDaysSupply && quantity && packageRounding) {
+    const extendsSupply = packageRounding.roundedDaysSupply > quantity.daysSupply;
+    warnings.push({
+      type: "package_rounding",
+      severity: extendsSupply ? "warning" : "info",
+      message: `${packageRounding.reason.charAt(0).toUpperCase()}${packageRounding.reason.slice(1)}: quantity rounded up from ${formatDoseAmount(quantity.quantityValue)} to ${formatDoseAmount(packageRounding.roundedQuantity)} ${quantity.quantityUnit} (${packageRounding.packageCount} ${packageRounding.packageLabel}${packageRounding.packageCount === 1 ? "" : "s"}). ${extendsSupply ? `Submit the claim with a ${packageRounding.roundedDaysSupply}-day supply.` : `Days supply stays ${formatQuantity(quantity.daysSupply)} days.`}`,
+      field: "quantity",
+      details: {
+        ...packageRounding,
+        calculatedQuantity: quantity.quantityValue,
+        calculatedDaysSupply: quantity.daysSupply,
+      },
+    });
+  }
+
+  // Detect overfill/underfill if we have both quantity and package size.
+  // A quantity rounded up to whole packages fills them exactly, so it is not compared.
+  if (quantity && dispensedQuantity !== undefined && packageSize) {
+    if (!(hasEnteredDaysSupply && packageRounding)) {
+      const overfillUnderfillWarnings = detectOverfillUnderfill(
+        dispensedQuantity,
+        quantity.quantityUnit,
+        packageSize,
+        hasEnteredDaysSupply ? undefined : "Prescribed quantity",
+      );
+      warnings.push(...overfillUnderfillWarnings);
+    }
 
     // Add multi-pack warning if multiple packages are needed
     if (multiPack && multiPack.packageCount > 1) {
@@ -431,7 +1613,7 @@ export function computeQuantityWithWarnings(
         details: {
           packageCount: multiPack.packageCount,
           remainder: multiPack.remainder,
-          totalQuantity: quantity.quantityValue,
+          totalQuantity: dispensedQuantity,
           packageSize: packageSize.packageSize,
         },
       });
@@ -0,0 +1,352 @@
+/**
+ * Prescribed quantity reconciliation.
+ * Compares the quantity written on the prescription ("Disp #30") to the quantity the SIG implies
+ * and explains the likely cause of a discrepancy (days supply, frequency, or dose), so prescriber
+ * errors are caught before the claim is rejected.
+ */
+
+import type { NdcCandidate, NormalizedSig, Warning } from "../types";
+import { divide, multiply, subtract, toNumber } from "./decimal";
+import { formatQuantity } from "./formatters";
+import { isActuationUnit, resolveActuationSupply } from "./inhalers";
+import { resolveInsulinSupply } from "./insulin";
+import { parsePackageHierarchy } from "./packageParser";
+import { normalizeUnit, type QuantityResult } from "./quantityMath";
+
+/**
+ * Differences up to this percentage of the computed quantity are treated as a match.
+ */
+export const RECONCILIATION_TOLERANCE_PERCENT = 1;
+
+/**
+ * Differences of at least this percentage are warnings; smaller ones are informational.
+ */
+const DISCREPANCY_WARNING_PERCENT = 10;
+
+/**
+ * Days supplies prescribers commonly write quantities for.
+ */
+const COMMON_DAYS_SUPPLY = [7, 10, 14, 21, 28, 30, 60, 84, 90];
+
+/**
+ * Whole-package units ("Disp 1 bottle", "2 inhalers") with the FDA container names they stand for,
+ * converted using the selected package.
+ */
+const PACKAGE_UNITS: Record<string, string[]> = {
+  bottle: ["bottle"],
+  box: ["box", "carton", "package"],
+  canister: ["canister", "inhaler"],
+  carton: ["carton", "box", "package"],
+  inhaler: ["inhaler", "canister"],
+  kit: ["kit"],
+  pack: ["pack", "carton", "box", "package"],
+  package: ["package", "carton", "box"],
+  pen: ["pen", "syringe", "cartridge", "injector"],
+  tube: ["tube"],
+  vial: ["vial"],
+};
+
+/**
+ * Count units without a named form ("#30", "30 each").
+ */
+const COUNT_UNITS = new Set(["#", "each", "ea", "ct", "count"]);
+
+/**
+ * Units that measure volume or mass, which "each" cannot stand for.
+ */
+const MEASURED_UNITS = new Set(["ml", "l", "g", "mg"]);
+
+/**
+ * Quantity written on the prescription.
+ */
+export type PrescribedQuantity = {
+  quantity: number;
+  unit?: string; // As written ("tablets", "mL", "bottle"); defaults to the dispense unit
+};
+
+/**
+ * Dispense units in one container of the selected package ("inhaler", "pen", "box").
+ * The named container is found in the package hierarchy and its innermost containers are
+ * counted; each holds its labeled actuations (inhalers, sprays), insulin units (mL × units/mL),
+ * or contents in the dispense unit.
+ *
+ * @param packageUnit - Singular package unit as written (e.g., "inhaler", "box")
+ * @param quantityUnit - Dispense unit (e.g., "puff", "unit", "tablet")
+ * @param selectedNdc - Selected NDC product
+ * @returns Dispense units per container, or undefined if the package does not match
+ */
+function resolveContainerContents(
+  packageUnit: string,
+  quantityUnit: string,
+  selectedNdc: NdcCandidate | null,
+): number | undefined {
+  const containerNames = PACKAGE_UNITS[packageUnit];
+  if (!containerNames || !selectedNdc) {
+    return undefined;
+  }
+
+  const dispenseUnit = normalizeUnit(quantityUnit);
+  const actuations = isActuationUnit(dispenseUnit)
+    ? resolveActuationSupply(selectedNdc)
+    : null;
+  const insulin =
+    dispenseUnit === "unit" ? resolveInsulinSupply(selectedNdc) : null;
+  const hierarchy = parsePackageHierarchy(selectedNdc.packageDescription);
+  const levels = hierarchy?.levels ?? [];
+  const innermost = levels[levels.length - 1];
+  // "bottle, spray" is a bottle
+  const index = levels.findIndex((level) =>
+    containerNames.includes(level.container.split(",")[0]?.trim() ?? ""),
+  );
+
+  if (!hierarchy || !innermost || index < 0) {
+    // Actuation counts may come from the rules table when the package is labeled by weight
+    return actuations && containerNames.includes(actuations.unitLabel)
+      ? actuations.actuationsPerUnit
+      : undefined;
+  }
+
+  const innermostContents = actuations
+    ? actuations.actuationsPerUnit
+    : insulin
+      ? normalizeUnit(hierarchy.innerUnit) === "ml"
+        ? toNumber(multiply(innermost.quantity, insulin.unitsPerMl))
+        : undefined
+      : normalizeUnit(hierarchy.innerUnit) === dispenseUnit
+        ? innermost.quantity
+        : undefined;
+  if (innermostContents === undefined) {
+    return undefined;
+  }
+  // Innermost containers in the named one ("5 SYRINGE in 1 CARTON" is 5 pens per box)
+  const innermostCount = levels.slice(index, -1).map((level) => level.quantity);
+  return toNumber(multiply(innermostContents, ...innermostCount));
+}
+
+/**
+ * Converts the prescribed quantity to the dispense unit.
+ * Insulin written in mL converts by concentration ("Disp 15 mL" of U-100 is 1500 units).
+ *
+ * @param prescribed - Quantity as written on the prescription
+ * @param quantityUnit - Dispense unit (e.g., "tablet", "puff", "unit")
+ * @param selectedNdc - Selected NDC (converts package units such as "1 inhaler")
+ * @returns Quantity in the dispense unit, or undefined if the units cannot be compared
+ */
+export function toDispenseUnits(
+  prescribed: PrescribedQuantity,
+  quantityUnit: string,
+  selectedNdc: NdcCandidate | null,
+): number | undefined {
+  const rawUnit = prescribed.unit?.toLowerCase().trim();
+  if (!rawUnit) {
+    return prescribed.quantity;
+  }
+
+  const unit = normalizeUnit(rawUnit);
+  if (unit === normalizeUnit(quantityUnit)) {
+    return prescribed.quantity;
+  }
+  if (
+    COUNT_UNITS.has(unit) &&
+    !MEASURED_UNITS.has(normalizeUnit(quantityUnit))
+  ) {
+    return prescribed.quantity;
+  }
+
+  const insulin =
+    normalizeUnit(quantityUnit) === "unit"
+      ? resolveInsulinSupply(selectedNdc)
+      : null;
+  if (insulin && unit === "ml") {
+    return toNumber(multiply(prescribed.quantity, insulin.unitsPerMl));
+  }
+
+  // The package unit must name a container of the selected package ("bottle" for "60 TABLET in 1 BOTTLE")
+  const contents = [unit, unit.replace(/s$/, ""), unit.replace(/es$/, "")]
+    .map((singular) =>
+      resolveContainerContents(singular, quantityUnit, selectedNdc),
+    )
+    .find((value) => value !== undefined);
+  return contents !== undefined
+    ? toNumber(multiply(prescribed.quantity, contents))
+    : undefined;
+}
+
+/**
+ * Checks whether a value is within the reconciliation tolerance of a target.
+ */
+function isNear(value: number, target: number): boolean {
+  return (
+    Math.abs(value - target) <=
+    Math.abs(target) * (RECONCILIATION_TOLERANCE_PERCENT / 100) + 1e-9
+  );
+}
+
+/**
+ * Explains a discrepancy: a different days supply, frequency, or dose that yields the
+ * prescribed quantity, or how many days the prescribed quantity covers.
+ *
+ * @returns Likely causes, most likely first
+ */
+function findLikelyCauses(
+  prescribedQuantity: number,
+  quantity: NonNullable<QuantityResult>,
+  normalizedSig: NormalizedSig,
+): string[] {
+  const causes: string[] = [];
+  const ratio = divide(prescribedQuantity, quantity.quantityValue);
+  const impliedDaysSupply = toNumber(multiply(ratio, quantity.daysSupply));
+
+  // Quantity written for a different days supply (e.g., a 90-day quantity on a 30-day claim)
+  const matchingDaysSupply = COMMON_DAYS_SUPPLY.find(
+    (days) => days !== quantity.daysSupply && isNear(impliedDaysSupply, days),
+  );
+  if (matchingDaysSupply !== undefined) {
+    causes.push(
+      `the Rx quantity matches a ${matchingDaysSupply}-day supply, but the days supply is ${quantity.daysSupply} days`,
+    );
+  }
+
+  // Frequency and dose checks apply to simple daily SIGs only
+  const isDailySig = !quantity.phases && quantity.administrations === undefined;
+  const frequencyPerDay =
+    normalizedSig.frequencyPerDayMax ?? normalizedSig.frequencyPerDay;
+  if (isDailySig && frequencyPerDay !== undefined && frequencyPerDay > 0) {
+    const impliedFrequency = toNumber(multiply(frequencyPerDay, ratio));
+    const roundedFrequency = Math.round(impliedFrequency);
+    if (
+      roundedFrequency >= 1 &&
+      roundedFrequency <= 6 &&
+      roundedFrequency !== frequencyPerDay &&
+      isNear(impliedFrequency, roundedFrequency)
+    ) {
+      causes.push(
+        `the Rx quantity matches ${roundedFrequency} dose${roundedFrequency === 1 ? "" : "s"} per day, but the SIG gives ${formatQuantity(frequencyPerDay)}`,
+      );
+    }
+  }
+
+  const dosePerAdministration =
+    quantity.strengthConversion?.unitsPerDose ??
+    normalizedSig.doseMax ??
+    normalizedSig.dose;
+  if (
+    isDailySig &&
+    dosePerAdministration !== undefined &&
+    dosePerAdministration > 0
+  ) {
+    const impliedDose = toNumber(multiply(dosePerAdministration, ratio));
+    // Doses are written in whole or half units
+    const roundedDose = Math.round(impliedDose * 2) / 2;
+    if (
+      roundedDose > 0 &&
+      roundedDose !== dosePerAdministration &&
+      isNear(impliedDose, roundedDose)
+    ) {
+      causes.push(
+        `the Rx quantity matches ${formatQuantity(roundedDose)} ${quantity.quantityUnit} per dose, but the SIG gives ${formatQuantity(dosePerAdministration)}`,
+      );
+    }
+  }
+
+  if (causes.length === 0) {
+    causes.push(
+      prescribedQuantity < quantity.quantityValue
+        ? `the Rx quantity covers only ${formatQuantity(impliedDaysSupply)} of the ${quantity.daysSupply} days`
+        : `the Rx quantity covers ${formatQuantity(impliedDaysSupply)} days, more than the ${quantity.daysSupply}-day supply`,
+    );
+  }
+
+  return causes;
+}
+
+/**
+ * Compares the prescribed quantity to the computed dispense quantity.
+ *
+ * @param quantity - Computed quantity result
+ * @param prescribed - Quantity written on the prescription
+ * @param normalizedSig - Normalized SIG (for frequency and dose causes)
+ * @param selectedNdc - Selected NDC (converts package units such as "1 bottle")
+ * @returns Discrepancy warning, or undefined if the quantities match
+ */
+export function reconcilePrescribedQuantity(
+  quantity: NonNullable<QuantityResult>,
+  prescribed: PrescribedQuantity,
+  normalizedSig: NormalizedSig,
+  selectedNdc: NdcCandidate | null,
+): Warning | undefined {
+  const prescribedLabel = `${formatQuantity(prescribed.quantity)} ${prescribed.unit ?? quantity.quantityUnit}`;
+  const computedLabel = `${formatQuantity(quantity.quantityValue)} ${quantity.quantityUnit}`;
+  const prescribedQuantity = toDispenseUnits(
+    prescribed,
+    quantity.quantityUnit,
+    selectedNdc,
+  );
+
+  if (prescribedQuantity === undefined) {
+    return {
+      type: "quantity_discrepancy",
+      severity: "warning",
+      message: `SIG implies ${computedLabel} for ${quantity.daysSupply} days, but the Rx says ${prescribedLabel}. Likely cause: the Rx quantity is written in ${prescribed.unit ?? ""} rather than ${quantity.quantityUnit}; confirm the quantity in dispensable units.`,
+      field: "prescribedQuantity",
+      details: {
+        prescribedQuantity: prescribed.quantity,
+        prescribedUnit: prescribed.unit,
+        computedQuantity: quantity.quantityValue,
+        computedUnit: quantity.quantityUnit,
+      },
+    };
+  }
+
+  // Whole packages of a non-breakable product match too ("2 inhalers" for 360 puffs)
+  const wholePackageQuantity = quantity.packageRounding?.roundedQuantity;
+  if (
+    isNear(prescribedQuantity, quantity.quantityValue) ||
+    (wholePackageQuantity !== undefined &&
+      prescribedQuantity >= quantity.quantityValue &&
+      (prescribedQuantity <= wholePackageQuantity ||
+        isNear(prescribedQuantity, wholePackageQuantity)))
+  ) {
+    return undefined;
+  }
+
+  const difference = toNumber(
+    subtract(prescribedQuantity, quantity.quantityValue),
+  );
+  const differencePercent = toNumber(
+    multiply(divide(Math.abs(difference), quantity.quantityValue), 100),
+  );
+  const likelyCauses = findLikelyCauses(
+    prescribedQuantity,
+    quantity,
+    normalizedSig,
+  );
+  const convertedLabel =
+    prescribedQuantity !== prescribed.quantity
+      ? ` (${formatQuantity(prescribedQuantity)} ${quantity.quantityUnit})`
+      : "";
+
+  return {
+    type: "quantity_discrepancy",
+    severity:
+      differencePercent >= DISCREPANCY_WARNING_PERCENT ? "warning" : "info",
+    message: `SIG implies ${computedLabel} for ${quantity.daysSupply} days, but the Rx says ${prescribedLabel}${convertedLabel}: ${difference > 0 ? "+" : "-"}${formatQuantity(Math.abs(difference))} ${quantity.quantityUnit} (${formatQuantity(differencePercent)}%). Likely cause: ${likelyCauses.join("; or ")}.`,
+    field: "prescribedQuantity",
+    details: {
+      prescribedQuantity: prescribed.quantity,
+      prescribedUnit: prescribed.unit,
+      prescribedDispenseQuantity: prescribedQuantity,
+      computedQuantity: quantity.quantityValue,
+      computedUnit: quantity.quantityUnit,
+      difference,
+      differencePercent,
+      impliedDaysSupply: toNumber(
+        multiply(
+          divide(prescribedQuantity, quantity.quantityValue),
+          quantity.daysSupply,
+        ),
+      ),
+      likelyCauses,
+    },
+  };
+}
@@ -0,0 +1,297 @@
+/**
+ * SIG abbreviation lexicon.
+ * Data-driven dictionary of pharmacy frequency shorthand (Latin abbreviations,
+ * meal and bedtime timing) used by the SIG parser and shown in the UI.
+ */
+
+/**
+ * Kind of frequency token.
+ * "interval" tokens state the full daily schedule (e.g., "bid", "qod").
+ * "timing" tokens anchor one administration to a time of day (e.g., "qam", "hs", "with meals")
+ * and add up when several appear together (e.g., "qam and qhs" = 2 per day).
+ */
+export type SigTokenKind = "interval" | "timing";
+
+/**
+ * Lexicon entry for a frequency abbreviation and its written-out variants.
+ */
+export type SigLexiconEntry = {
+  token: string; // Canonical abbreviation (e.g., "bid")
+  meaning: string; // Plain-language meaning (e.g., "twice daily")
+  frequencyPerDay: number; // Administrations per day; fractional for less than daily (qod = 0.5)
+  kind: SigTokenKind;
+  variants: string[]; // Lowercase forms matched in the SIG, without periods
+};
+
+/**
+ * A lexicon token found in a SIG.
+ */
+export type SigTokenMatch = {
+  token: string;
+  text: string; // Matched text (lowercase, periods removed)
+  meaning: string;
+  frequencyPerDay: number;
+  kind: SigTokenKind;
+  index: number; // Position in the normalized SIG text
+};
+
+/**
+ * Frequency lexicon.
+ * Dotted forms ("b.i.d.", "q.o.d.") match because periods are removed before matching.
+ */
+export const SIG_LEXICON: SigLexiconEntry[] = [
+  // Interval tokens
+  {
+    token: "qd",
+    meaning: "once daily",
+    frequencyPerDay: 1,
+    kind: "interval",
+    variants: ["qd", "qday", "daily", "once daily", "once a day", "every day", "each day", "a day", "per day", "1x daily", "1xday", "q24h", "every 24 hours"],
+  },
+  {
+    token: "bid",
+    meaning: "twice daily",
+    frequencyPerDay: 2,
+    kind: "interval",
+    variants: ["bid", "twice daily", "twice a day", "2x daily", "2xday", "2 times daily", "2 times a day", "2 times per day", "every morning and evening", "morning and evening"],
+  },
+  {
+    token: "tid",
+    meaning: "three times daily",
+    frequencyPerDay: 3,
+    kind: "interval",
+    variants: ["tid", "three times daily", "three times a day", "3x daily", "3xday", "3 times daily", "3 times a day", "3 times per day"],
+  },
+  {
+    token: "qid",
+    meaning: "four times daily",
+    frequencyPerDay: 4,
+    kind: "interval",
+    variants: ["qid", "four times daily", "four times a day", "4x daily", "4xday", "4 times daily", "4 times a day", "4 times per day"],
+  },
+  {
+    token: "q12h",
+    meaning: "every 12 hours",
+    frequencyPerDay: 2,
+    kind: "interval",
+    variants: ["q12h", "every 12 hours"],
+  },
+  {
+    token: "q8h",
+    meaning: "every 8 hours",
+    frequencyPerDay: 3,
+    kind: "interval",
+    variants: ["q8h", "every 8 hours"],
+  },
+  {
+    token: "q6h",
+    meaning: "every 6 hours",
+    frequencyPerDay: 4,
+    kind: "interval",
+    variants: ["q6h", "every 6 hours"],
+  },
+  {
+    token: "q4h",
+    meaning: "every 4 hours",
+    frequencyPerDay: 6,
+    kind: "interval",
+    variants: ["q4h", "every 4 hours"],
+  },
+  {
+    token: "q3h",
+    meaning: "every 3 hours",
+    frequencyPerDay: 8,
+    kind: "interval",
+    variants: ["q3h", "every 3 hours"],
+  },
+  {
+    token: "q2h",
+    meaning: "every 2 hours",
+    frequencyPerDay: 12,
+    kind: "interval",
+    variants: ["q2h", "every 2 hours"],
+  },
+  {
+    token: "qh",
+    meaning: "every hour",
+    frequencyPerDay: 24,
+    kind: "interval",
+    variants: ["qh", "q1h", "hourly", "every hour"],
+  },
+  {
+    token: "qod",
+    meaning: "every other day",
+    frequencyPerDay: 0.5,
+    kind: "interval",
+    variants: ["qod", "every other day", "alternate days", "q48h", "every 48 hours"],
+  },
+  {
+    token: "biw",
+    meaning: "twice weekly",
+    frequencyPerDay: 2 / 7,
+    kind: "interval",
+    variants: ["biw", "twice weekly", "twice a week", "2 times weekly", "2 times a week", "2 times per week"],
+  },
+  {
+    token: "tiw",
+    meaning: "three times weekly",
+    frequencyPerDay: 3 / 7,
+    kind: "interval",
+    variants: ["tiw", "three times weekly", "three times a week", "3 times weekly", "3 times a week", "3 times per week"],
+  },
+  {
+    token: "qwk",
+    meaning: "once weekly",
+    frequencyPerDay: 1 / 7,
+    kind: "interval",
+    variants: ["qwk", "qweek", "q1wk", "weekly", "once weekly", "once a week", "every week", "q7d", "every 7 days"],
+  },
+  {
+    token: "q2wk",
+    meaning: "every other week",
+    frequencyPerDay: 1 / 14,
+    kind: "interval",
+    variants: ["q2wk", "q2weeks", "every other week", "every 2 weeks", "q14d", "every 14 days"],
+  },
+  {
+    token: "qmonth",
+    meaning: "once monthly",
+    frequencyPerDay: 1 / 30,
+    kind: "interval",
+    variants: ["qmonth", "qmo", "monthly", "once monthly", "once a month", "every month"],
+  },
+  // Timing tokens
+  {
+    token: "qam",
+    meaning: "every morning",
+    frequencyPerDay: 1,
+    kind: "timing",
+    variants: ["qam", "every morning", "each morning", "in the morning", "with breakfast"],
+  },
+  {
+    token: "qpm",
+    meaning: "every evening",
+    frequencyPerDay: 1,
+    kind: "timing",
+    variants: ["qpm", "every evening", "each evening", "in the evening", "with dinner", "with supper"],
+  },
+  {
+    token: "noon",
+    meaning: "at noon",
+    frequencyPerDay: 1,
+    kind: "timing",
+    variants: ["at noon", "noon", "midday", "at lunch", "with lunch"],
+  },
+  {
+    token: "qhs",
+    meaning: "at bedtime",
+    frequencyPerDay: 1,
+    kind: "timing",
+    variants: ["qhs", "hs", "at bedtime", "bedtime", "nightly", "every night", "at night"],
+  },
+  {
+    token: "ac",
+    meaning: "before meals",
+    frequencyPerDay: 3,
+    kind: "timing",
+    variants: ["ac", "before meals", "before each meal"],
+  },
+  {
+    token: "pc",
+    meaning: "after meals",
+    frequencyPerDay: 3,
+    kind: "timing",
+    variants: ["pc", "after meals", "after each meal"],
+  },
+  {
+    token: "with meals",
+    meaning: "with meals",
+    frequencyPerDay: 3,
+    kind: "timing",
+    variants: ["with meals", "with each meal"],
+  },
+];
+
+/**
+ * Lexicon variants sorted longest first, so "every other day" wins over "every day"
+ * and "twice daily" wins over "daily".
+ */
+const SORTED_VARIANTS = SIG_LEXICON.flatMap((entry) =>
+  entry.variants.map((variant) => ({ variant, entry })),
+).sort((a, b) => b.variant.length - a.variant.length);
+
+/**
+ * Lowercases SIG text and removes periods inside abbreviations ("b.i.d." -> "bid"),
+ * keeping decimal points in numbers.
+ */
+export function normalizeSigText(sig: string): string {
+  return sig
+    .toLowerCase()
+    .replace(/(?<=[a-z])\.|\.(?=[a-z])/g, "")
+    .replace(/\s+/g, " ");
+}
+
+/**
+ * Escapes a string for use in a regular expression.
+ */
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Finds lexicon tokens in SIG text, longest match first, without overlaps.
+ * Returns matches in the order they appear in the SIG.
+ */
+export function matchSigTokens(sig: string): SigTokenMatch[] {
+  let text = normalizeSigText(sig);
+  const matches: SigTokenMatch[] = [];
+
+  for (const { variant, entry } of SORTED_VARIANTS) {
+    const regex = new RegExp(
+      `(?<![a-z0-9])${escapeRegex(variant)}(?![a-z0-9])`,
+      "g",
+    );
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(text)) !== null) {
+      matches.push({
+        token: entry.token,
+        text: match[0],
+        meaning: entry.meaning,
+        frequencyPerDay: entry.frequencyPerDay,
+        kind: entry.kind,
+        index: match.index,
+      });
+    }
+    // Mask matched spans so shorter variants cannot match inside them
+    text = text.replace(regex, (found) => "#".repeat(found.length));
+  }
+
+  return matches.sort((a, b) => a.index - b.index);
+}
+
+/**
+ * Resolves frequency per day from matched tokens.
+ * The first interval token wins; otherwise distinct timing tokens add up
+ * (e.g., "ac and hs" = 4 per day).
+ */
+export function resolveTokenFrequency(
+  matches: SigTokenMatch[],
+): number | undefined {
+  const interval = matches.find((match) => match.kind === "interval");
+  if (interval) {
+    return interval.frequencyPerDay;
+  }
+
+  const timingTokens = new Map<string, number>();
+  for (const match of matches) {
+    if (match.kind === "timing") {
+      timingTokens.set(match.token, match.frequencyPerDay);
+    }
+  }
+
+  if (timingTokens.size === 0) {
+    return undefined;
+  }
+
+  return [...timingTokens.values()].reduce((total, value) => total + value, 0);
+}
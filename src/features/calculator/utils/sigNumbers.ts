@@ -0,0 +1,168 @@
+/**
+ * SIG number normalization.
+ * Rewrites fractions and English number words as decimals so the SIG parser
+ * only has to match digits ("one-half tablet" -> "0.5 tablet", "1 1/2 tabs" -> "1.5 tabs").
+ */
+
+/**
+ * Unicode vulgar fractions mapped to decimal values.
+ */
+const UNICODE_FRACTIONS: Record<string, number> = {
+  "½": 0.5,
+  "⅓": 1 / 3,
+  "⅔": 2 / 3,
+  "¼": 0.25,
+  "¾": 0.75,
+  "⅕": 0.2,
+  "⅖": 0.4,
+  "⅗": 0.6,
+  "⅘": 0.8,
+  "⅙": 1 / 6,
+  "⅚": 5 / 6,
+  "⅛": 0.125,
+  "⅜": 0.375,
+  "⅝": 0.625,
+  "⅞": 0.875,
+};
+
+/**
+ * English number words mapped to values.
+ */
+const NUMBER_WORDS: Record<string, number> = {
+  zero: 0,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  eleven: 11,
+  twelve: 12,
+  fifteen: 15,
+  twenty: 20,
+  thirty: 30,
+};
+
+/**
+ * Fraction words mapped to values ("half", "one-half", "a quarter").
+ * "third" alone is left out so "every third day" is not read as a dose.
+ */
+const FRACTION_WORDS: Record<string, number> = {
+  half: 0.5,
+  quarter: 0.25,
+  "three quarters": 0.75,
+  "three-quarters": 0.75,
+  "two thirds": 2 / 3,
+  "two-thirds": 2 / 3,
+};
+
+/**
+ * Largest denominator read as a dose fraction, so strengths like "10/325" are left alone.
+ */
+const MAX_FRACTION_DENOMINATOR = 8;
+
+/**
+ * Formats a value as a short decimal string (at most 3 decimal places).
+ */
+function toDecimalString(value: number): string {
+  return String(Math.round(value * 1000) / 1000);
+}
+
+/**
+ * Escapes a string for use in a regular expression.
+ */
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+const NUMBER_WORD_PATTERN = Object.keys(NUMBER_WORDS).join("|");
+const FRACTION_WORD_PATTERN = Object.keys(FRACTION_WORDS)
+  .sort((a, b) => b.length - a.length)
+  .map(escapeRegex)
+  .join("|");
+const UNICODE_FRACTION_PATTERN = Object.keys(UNICODE_FRACTIONS).join("");
+
+/**
+ * Rewrites fractions and number words in SIG text as decimals.
+ * Handles unicode fractions ("½", "1½"), slash fractions ("1/2"), mixed numbers ("1 1/2",
+ * "1 and 1/2"), fraction words ("one-half", "half a", "one and a half"), and number words ("two caps").
+ * Frequency words ("once", "twice") are left for the abbreviation lexicon.
+ *
+ * @param sig - SIG text
+ * @returns SIG text with numbers as digits
+ */
+export function normalizeSigNumbers(sig: string): string {
+  let text = sig;
+
+  // Unicode fractions, with an optional whole number ("1½" or "1 ½")
+  text = text.replace(
+    new RegExp(`(\\d+)?\\s*([${UNICODE_FRACTION_PATTERN}])`, "g"),
+    (_match, whole: string | undefined, fraction: string) =>
+      ` ${toDecimalString(Number(whole ?? 0) + (UNICODE_FRACTIONS[fraction] ?? 0))}`,
+  );
+
+  // Mixed numbers ("1 1/2") before plain slash fractions ("1/2")
+  text = text.replace(
+    /\b(\d+)\s+(\d+)\s*\/\s*(\d+)\b/g,
+    (match, whole: string, numerator: string, denominator: string) => {
+      const den = Number(denominator);
+      return den > 0 && den <= MAX_FRACTION_DENOMINATOR && Number(numerator) < den
+        ? toDecimalString(Number(whole) + Number(numerator) / den)
+        : match;
+    },
+  );
+  text = text.replace(
+    /\b(\d+)\s*\/\s*(\d+)\b/g,
+    (match, numerator: string, denominator: string) => {
+      const den = Number(denominator);
+      return den > 0 && den <= MAX_FRACTION_DENOMINATOR && Number(numerator) < den
+        ? toDecimalString(Number(numerator) / den)
+        : match;
+    },
+  );
+
+  // "1 and 1/2" and "1 and ½", once the fraction is a decimal ("1 and 0.5")
+  text = text.replace(
+    new RegExp(`\\b(\\d+|${NUMBER_WORD_PATTERN})\\s+and\\s+(0?\\.\\d+)\\b`, "gi"),
+    (_match, whole: string, fraction: string) =>
+      toDecimalString(
+        (NUMBER_WORDS[whole.toLowerCase()] ?? Number(whole)) + Number(fraction),
+      ),
+  );
+
+  // "one and a half", "1 and one-half"
+  text = text.replace(
+    new RegExp(
+      `\\b(\\d+|${NUMBER_WORD_PATTERN})\\s+and\\s+(?:a|one)[\\s-]+(${FRACTION_WORD_PATTERN})\\b`,
+      "gi",
+    ),
+    (_match, whole: string, fraction: string) => {
+      const wholeValue = NUMBER_WORDS[whole.toLowerCase()] ?? Number(whole);
+      return toDecimalString(
+        wholeValue + (FRACTION_WORDS[fraction.toLowerCase()] ?? 0),
+      );
+    },
+  );
+
+  // "one-half", "a half", "half a", "half of a", "three quarters"
+  text = text.replace(
+    new RegExp(
+      `\\b(?:(?:one|a)[\\s-]+)?(${FRACTION_WORD_PATTERN})(?:\\s+(?:of\\s+)?an?)?\\b`,
+      "gi",
+    ),
+    (_match, fraction: string) =>
+      toDecimalString(FRACTION_WORDS[fraction.toLowerCase()] ?? 0),
+  );
+
+  // Whole number words ("two caps", "take one tablet")
+  text = text.replace(
+    new RegExp(`\\b(${NUMBER_WORD_PATTERN})\\b`, "gi"),
+    (_match, word: string) => String(NUMBER_WORDS[word.toLowerCase()] ?? word),
+  );
+
+  return text.replace(/\s{2,}/g, " ").trim();
+}
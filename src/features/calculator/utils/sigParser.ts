@@ -1,10 +1,44 @@
 /**
  * SIG (prescription instructions) parser.
  * Parses prescription instructions to extract dose, doseUnit, frequencyPerDay, and route.
+ * Fractions and number words are rewritten as decimals first (sigNumbers.ts).
+ * Frequency abbreviations come from the lexicon in sigLexicon.ts.
+ * Dose and frequency ranges (e.g., "1-2 tabs q4-6h") are captured as min/max bounds.
+ * Tapers and titrations ("... x3 days, then ...") are captured as ordered steps.
+ * Compound SIGs ("1 tab in the morning and 2 tabs at bedtime") are captured as clauses.
+ * Eye and ear sites ("each eye", "OU") are captured with the number of sites dosed (administrationSite.ts).
  * This is a deterministic parser that handles common SIG patterns.
  */
 
-import type { NormalizedSig } from "../types";
+import type {
+  NormalizedSig,
+  SigClause,
+  SigStep,
+  TopicalRegion,
+} from "../types";
+import { extractAdministrationSite } from "./administrationSite";
+import { multiply, toNumber } from "./decimal";
+import {
+  matchSigTokens,
+  normalizeSigText,
+  resolveTokenFrequency,
+} from "./sigLexicon";
+import { normalizeSigNumbers } from "./sigNumbers";
+import { extractSchedule } from "./sigSchedule";
+import { estimateTopicalDose, extractTopicalRegions } from "./topical";
+import {
+  applyPatientWeight,
+  extractDividedDoses,
+  extractWeightBasedDose,
+} from "./weightDosing";
+
+/**
+ * Patient and form context for SIG parsing.
+ */
+export type ParseSigOptions = {
+  topicalRegions?: TopicalRegion[]; // Application area chosen for topical SIGs (replaces regions read from the SIG)
+  patientWeightKg?: number; // Patient weight for per-kg SIGs ("10 mg/kg/day")
+};
 
 /**
  * Unit normalization map: maps common unit variations to standardized forms.
@@ -39,69 +73,113 @@ const UNIT_NORMALIZATION: Record<string, string> = {
   units: "unit",
   drop: "drop",
   drops: "drop",
+  gtt: "drop",
+  gtts: "drop",
+  patch: "patch",
+  patches: "patch",
+  ftu: "ftu",
+  ftus: "ftu",
+  fingertip: "ftu",
   puff: "puff",
   puffs: "puff",
   spray: "spray",
   sprays: "spray",
-  // Liquid volume units (for conversion)
-  teaspoon: "ml", // 1 tsp = ~5ml
-  tsp: "ml",
-  teaspoons: "ml",
-  tsps: "ml",
-  tablespoon: "ml", // 1 tbsp = ~15ml
-  tbsp: "ml",
-  tablespoons: "ml",
-  cup: "ml", // 1 cup = ~240ml
-  cups: "ml",
-  oz: "ml", // 1 oz = ~30ml (fluid ounce)
-  ounce: "ml",
-  ounces: "ml",
-  "fl oz": "ml",
-  "fluid ounce": "ml",
-  "fluid ounces": "ml",
+  // Household volume units (converted to ml, see HOUSEHOLD_VOLUME_ML)
+  teaspoon: "tsp",
+  tsp: "tsp",
+  teaspoons: "tsp",
+  tsps: "tsp",
+  tablespoon: "tbsp",
+  tbsp: "tbsp",
+  tablespoons: "tbsp",
+  cup: "cup",
+  cups: "cup",
+  oz: "fl oz",
+  ounce: "fl oz",
+  ounces: "fl oz",
+  "fl oz": "fl oz",
+  "fluid ounce": "fl oz",
+  "fluid ounces": "fl oz",
 };
 
 /**
- * Frequency patterns: maps common frequency abbreviations to times per day.
+ * Milliliters per household volume unit; doses in these units are converted to ml.
  */
-const FREQUENCY_PATTERNS: Record<string, number> = {
-  qd: 1, // once daily
-  qday: 1,
-  "once daily": 1,
-  "once a day": 1,
-  "1x daily": 1,
-  "1xday": 1,
-  bid: 2, // twice daily
-  "twice daily": 2,
-  "twice a day": 2,
-  "2x daily": 2,
-  "2xday": 2,
-  tid: 3, // three times daily
-  "three times daily": 3,
-  "three times a day": 3,
-  "3x daily": 3,
-  "3xday": 3,
-  qid: 4, // four times daily
-  "four times daily": 4,
-  "four times a day": 4,
-  "4x daily": 4,
-  "4xday": 4,
-  q6h: 4, // every 6 hours
-  q8h: 3, // every 8 hours
-  q12h: 2, // every 12 hours
-  q4h: 6, // every 4 hours
-  q2h: 12, // every 2 hours
-  "every 6 hours": 4,
-  "every 8 hours": 3,
-  "every 12 hours": 2,
-  "every 4 hours": 6,
-  "every 2 hours": 12,
+const HOUSEHOLD_VOLUME_ML: Record<string, number> = {
+  tsp: 5,
+  tbsp: 15,
+  cup: 240,
+  "fl oz": 30,
 };
 
+/**
+ * Dose units besides those in UNIT_NORMALIZATION: strength units and dosage forms counted each.
+ */
+const OTHER_DOSE_UNITS = new Set([
+  "mcg",
+  "meq",
+  "iu",
+  "suppository",
+  "lozenge",
+  "troche",
+  "film",
+  "kit",
+  "each",
+  "packet",
+  "sachet",
+  "inhalation",
+  "actuation",
+  "application",
+  "applicatorful",
+  "vial",
+  "ampule",
+  "pen",
+  "syringe",
+  "wafer",
+  "piece",
+]);
+
+/**
+ * Words that follow a number without being its unit ("1 and", "2 times", "3 daily").
+ */
+const NON_UNIT_WORDS = new Set([
+  "and",
+  "or",
+  "to",
+  "of",
+  "then",
+  "plus",
+  "with",
+  "times",
+  "time",
+  "x",
+  "every",
+  "per",
+  "by",
+  "a",
+  "an",
+  "the",
+  "daily",
+]);
+
+/**
+ * Returns true if a dose unit is one the calculator recognizes (singular or plural).
+ */
+function isRecognizedDoseUnit(unit: string): boolean {
+  const lower = unit.toLowerCase();
+  return [lower, lower.replace(/ies$/, "y"), lower.replace(/e?s$/, "")].some(
+    (candidate) =>
+      Object.values(UNIT_NORMALIZATION).includes(candidate) ||
+      candidate in UNIT_NORMALIZATION ||
+      OTHER_DOSE_UNITS.has(candidate),
+  );
+}
+
 /**
  * Route patterns: maps common route descriptions to standardized forms.
  */
 const ROUTE_PATTERNS: Record<string, string> = {
+  transdermal: "transdermal",
   oral: "oral",
   "by mouth": "oral",
   po: "oral",
@@ -135,16 +213,10 @@ function normalizeUnit(unit: string): string {
 
 /**
  * Extracts frequency per day from SIG text.
+ * Explicit counts ("3 times daily") take precedence over lexicon tokens, so "daily" alone does not win.
  */
 function extractFrequencyPerDay(sig: string): number | undefined {
-  const lowerSig = sig.toLowerCase();
-
-  // Check for explicit frequency patterns
-  for (const [pattern, frequency] of Object.entries(FREQUENCY_PATTERNS)) {
-    if (lowerSig.includes(pattern)) {
-      return frequency;
-    }
-  }
+  const lowerSig = normalizeSigText(sig);
 
   // Check for "X times per day" or "X times daily" patterns
   const timesPerDayRegex = /(\d+)\s*(?:times?|x)\s*(?:per\s*day|daily|a\s*day)/;
@@ -156,8 +228,14 @@ function extractFrequencyPerDay(sig: string): number | undefined {
     }
   }
 
-  // Check for "every X hours" pattern
-  const everyHoursRegex = /every\s*(\d+)\s*hours?/;
+  // Check the abbreviation lexicon (bid, qhs, ac, qod, "with meals", ...)
+  const tokenFrequency = resolveTokenFrequency(matchSigTokens(lowerSig));
+  if (tokenFrequency !== undefined) {
+    return tokenFrequency;
+  }
+
+  // Check for "every X hours" / "qXh" patterns not in the lexicon
+  const everyHoursRegex = /(?:every\s*|\bq\s*)(\d+)\s*(?:hours?|hrs?|h)\b/;
   const everyHoursMatch = everyHoursRegex.exec(lowerSig);
   if (everyHoursMatch) {
     const hours = Number.parseInt(everyHoursMatch[1] ?? "", 10);
@@ -165,19 +243,275 @@ function extractFrequencyPerDay(sig: string): number | undefined {
       // Calculate frequency per day (24 / hours, rounded)
       return Math.round(24 / hours);
     }
+    // Multi-day intervals ("q72h") stay fractional and become an interval schedule
+    if (!Number.isNaN(hours) && hours > 24) {
+      return 24 / hours;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Extracts a duration in days from SIG text.
+ * Handles "for 10 days", "x7d", "x 3 days", "for 2 weeks", and "x1 month".
+ */
+function extractDurationDays(sig: string): number | undefined {
+  const lowerSig = sig.toLowerCase();
+  const durationRegex =
+    /(?:\bfor|\bx|×)\s*(\d+(?:\.\d+)?)\s*(d|days?|wks?|weeks?|mos?|months?)\b/;
+  const match = durationRegex.exec(lowerSig);
+  if (!match) {
+    return undefined;
+  }
+
+  const value = Number.parseFloat(match[1] ?? "");
+  const unit = match[2] ?? "";
+  if (Number.isNaN(value) || value <= 0) {
+    return undefined;
+  }
+
+  if (unit.startsWith("w")) {
+    return value * 7;
+  }
+  if (unit.startsWith("m")) {
+    return value * 30;
+  }
+  return value;
+}
+
+/**
+ * Splits a SIG into the phases joined by "then".
+ */
+function splitPhases(sig: string): string[] {
+  return (
+    sig
+      .split(/[,;]?\s*\bthen\b/i)
+      .map((segment) => segment.trim())
+      // Drop trailing "then stop" / "then discontinue" clauses
+      .filter((segment) => segment.length > 0 && !/^(?:stop|discontinue|dc)\b/i.test(segment))
+  );
+}
+
+/**
+ * Phases taken on a single day ("2 tablets on day 1", "2 tablets today", "2 tablets x1 day"),
+ * which state no frequency: the dose is taken once that day.
+ */
+const SINGLE_DAY_PHASE_PATTERN =
+  /\bon\s+day\s+\d+\b|\btoday\b|(?:\bx|×)\s*1\s*(?:d|day)\b/i;
+
+/**
+ * Extracts taper/titration phases from a SIG whose clauses are joined by "then".
+ * Each phase needs a dose and frequency; every phase except the last needs a duration.
+ * Single-day phases (Z-pak "2 tablets on day 1") are taken once for one day.
+ * Returns undefined when the SIG is not multi-step or a phase cannot be parsed.
+ */
+function extractSteps(sig: string): SigStep[] | undefined {
+  const segments = splitPhases(sig);
+
+  if (segments.length < 2) {
+    return undefined;
+  }
+
+  const knownUnits = Object.values(UNIT_NORMALIZATION);
+  const steps: SigStep[] = [];
+  let previousUnit: string | undefined;
+
+  for (const [index, segment] of segments.entries()) {
+    const { dose, doseUnit } = extractDoseAndUnit(segment);
+    const isSingleDay = SINGLE_DAY_PHASE_PATTERN.test(segment);
+    const frequencyPerDay =
+      extractFrequencyPerDay(segment) ?? (isSingleDay ? 1 : undefined);
+    const durationDays =
+      extractDurationDays(segment) ?? (isSingleDay ? 1 : undefined);
+    const isLast = index === segments.length - 1;
+
+    if (
+      dose === undefined ||
+      frequencyPerDay === undefined ||
+      (durationDays === undefined && !isLast)
+    ) {
+      return undefined;
+    }
+
+    // "then 3 daily x3 days" omits the unit; carry it over from the previous phase
+    const unit =
+      doseUnit && knownUnits.includes(doseUnit) ? doseUnit : previousUnit;
+    previousUnit = unit;
+
+    steps.push({ dose, doseUnit: unit, frequencyPerDay, durationDays });
+  }
+
+  return steps;
+}
+
+/**
+ * Extracts compound SIG clauses joined by "and", "plus", or ";"
+ * (e.g., "1 tablet in the morning and 2 tablets at bedtime").
+ * Every clause needs a dose and frequency in the same unit; otherwise the SIG is not compound
+ * and "and" is treated as part of a single instruction (e.g., "every morning and evening").
+ */
+function extractClauses(sig: string): SigClause[] | undefined {
+  const segments = sig
+    .split(/\s*(?:;|\band\b|\bplus\b)\s*/i)
+    .map((segment) => segment.trim())
+    .filter((segment) => segment.length > 0);
+
+  if (segments.length < 2) {
+    return undefined;
+  }
+
+  const knownUnits = Object.values(UNIT_NORMALIZATION);
+  const clauses: SigClause[] = [];
+  let previousUnit: string | undefined;
+
+  for (const segment of segments) {
+    const { dose, doseUnit } = extractDoseAndUnit(segment);
+    const frequencyPerDay = extractFrequencyPerDay(segment);
+    // "2 tabs in the morning and 1 at bedtime" omits the unit; carry it over
+    const unit =
+      doseUnit && knownUnits.includes(doseUnit) ? doseUnit : previousUnit;
+
+    if (
+      dose === undefined ||
+      frequencyPerDay === undefined ||
+      !unit ||
+      (previousUnit !== undefined && unit !== previousUnit)
+    ) {
+      return undefined;
+    }
+
+    previousUnit = unit;
+    clauses.push({ text: segment, dose, doseUnit: unit, frequencyPerDay });
+  }
+
+  return clauses;
+}
+
+/**
+ * Extracts a frequency range from SIG text.
+ * Handles patterns like "q4-6h", "every 4 to 6 hours", and "1-2 times daily".
+ * Returns undefined when the SIG states a single frequency.
+ */
+function extractFrequencyRange(
+  sig: string,
+): { min: number; max: number } | undefined {
+  const lowerSig = sig.toLowerCase();
+
+  // "q4-6h" or "every 4-6 hours": shorter interval means more doses per day
+  const hoursRangeRegex =
+    /(?:\bq\s*|every\s*)(\d+)\s*(?:-|–|to)\s*(\d+)\s*(?:h\b|hrs?\b|hours?\b)/;
+  const hoursRangeMatch = hoursRangeRegex.exec(lowerSig);
+  if (hoursRangeMatch) {
+    const minHours = Number.parseInt(hoursRangeMatch[1] ?? "", 10);
+    const maxHours = Number.parseInt(hoursRangeMatch[2] ?? "", 10);
+    if (
+      !Number.isNaN(minHours) &&
+      !Number.isNaN(maxHours) &&
+      minHours > 0 &&
+      maxHours <= 24 &&
+      minHours < maxHours
+    ) {
+      return {
+        min: Math.round(24 / maxHours),
+        max: Math.round(24 / minHours),
+      };
+    }
+  }
+
+  // "1-2 times daily" or "2 to 3 times a day"
+  const timesRangeRegex =
+    /(\d+)\s*(?:-|–|to)\s*(\d+)\s*(?:times?|x)\s*(?:per\s*day|daily|a\s*day)/;
+  const timesRangeMatch = timesRangeRegex.exec(lowerSig);
+  if (timesRangeMatch) {
+    const min = Number.parseInt(timesRangeMatch[1] ?? "", 10);
+    const max = Number.parseInt(timesRangeMatch[2] ?? "", 10);
+    if (!Number.isNaN(min) && !Number.isNaN(max) && min > 0 && min < max && max <= 12) {
+      return { min, max };
+    }
   }
 
   return undefined;
 }
 
+/**
+ * Detects PRN ("as needed") SIGs and the indication, if stated.
+ * Handles "prn", "p.r.n.", "as needed", "when needed", and "if needed".
+ */
+function extractPrn(sig: string): {
+  prn: boolean;
+  prnIndication: string | undefined;
+} {
+  const lowerSig = sig.toLowerCase();
+  const prnRegex = /\bprn\b|\bp\.r\.n\.?|\b(?:as|when|if)\s+needed\b/;
+  if (!prnRegex.test(lowerSig)) {
+    return { prn: false, prnIndication: undefined };
+  }
+
+  // Indication follows the PRN marker, up to punctuation or a max-dose clause
+  const indicationRegex =
+    /(?:\bprn\b|\bp\.r\.n\.?|\bas\s+needed\b)\s*(?:for\s+)?([a-z][a-z ]*?)\s*(?=[,.;]|\b(?:max|maximum|not|nte|do|no)\b|$)/;
+  const indicationMatch = indicationRegex.exec(lowerSig);
+  const prnIndication = indicationMatch?.[1]?.trim();
+
+  return {
+    prn: true,
+    prnIndication: prnIndication && prnIndication.length > 0 ? prnIndication : undefined,
+  };
+}
+
+/**
+ * Extracts a stated daily maximum ("max 4 tabs/day", "not to exceed 8 tablets in 24 hours", "NTE 3 g per day").
+ * Returns the maximum and the SIG text with the clause removed so it is not parsed as the dose or frequency.
+ * Maximums stated in doses or times (e.g., "max 4 doses/day") are converted to dose units using the dose.
+ */
+function extractMaxDailyDose(
+  sig: string,
+  dose: number | undefined,
+  doseUnit: string | undefined,
+): {
+  maxDailyDose: number | undefined;
+  maxDailyDoseUnit: string | undefined;
+  remainder: string;
+} {
+  const maxDailyRegex =
+    /(?:\bmax(?:imum)?\.?(?:\s+of)?|\bnot\s+to\s+exceed|\bdo\s+not\s+exceed|\bno\s+more\s+than|\bnte)\s*:?\s*(\d+(?:\.\d+)?)\s*([a-z]+)?\s*(?:\/\s*day|\/\s*24\s*h(?:ours?|rs?)?|per\s+(?:day|24\s*h(?:ours?|rs?)?)|in\s+24\s*h(?:ours?|rs?)?|a\s+day|each\s+day|daily)\b/i;
+  const match = maxDailyRegex.exec(sig);
+  if (!match) {
+    return { maxDailyDose: undefined, maxDailyDoseUnit: undefined, remainder: sig };
+  }
+
+  const remainder = `${sig.slice(0, match.index)} ${sig.slice(match.index + match[0].length)}`.trim();
+  const value = Number.parseFloat(match[1] ?? "");
+  if (Number.isNaN(value) || value <= 0) {
+    return { maxDailyDose: undefined, maxDailyDoseUnit: undefined, remainder };
+  }
+
+  const rawUnit = match[2]?.toLowerCase();
+  // "max 4 doses/day", "max 4 times a day", or "max 4/day" count administrations
+  if (!rawUnit || /^(?:doses?|times?|x)$/.test(rawUnit)) {
+    if (dose === undefined) {
+      return { maxDailyDose: undefined, maxDailyDoseUnit: undefined, remainder };
+    }
+    return { maxDailyDose: value * dose, maxDailyDoseUnit: doseUnit, remainder };
+  }
+
+  return { maxDailyDose: value, maxDailyDoseUnit: normalizeUnit(rawUnit), remainder };
+}
+
 /**
  * Extracts route from SIG text.
+ * Patterns must start a word, and short abbreviations ("im", "po") must also end one,
+ * so they are not found inside other words ("bedtime", "apply").
  */
 function extractRoute(sig: string): string | undefined {
   const lowerSig = sig.toLowerCase();
 
   for (const [pattern, route] of Object.entries(ROUTE_PATTERNS)) {
-    if (lowerSig.includes(pattern)) {
+    const routeRegex = new RegExp(
+      `(?<![a-z])${pattern.replace(/\./g, "\\.")}${pattern.length <= 3 ? "(?![a-z])" : ""}`,
+    );
+    if (routeRegex.test(lowerSig)) {
       return route;
     }
   }
@@ -186,13 +520,104 @@ function extractRoute(sig: string): string | undefined {
 }
 
 /**
- * Extracts dose and doseUnit from SIG text.
- * Handles patterns like "1 tablet", "2 tabs", "10mg", "5 ml", etc.
+ * Extracts dose and doseUnit from SIG text, with household volumes converted to ml
+ * ("1 tsp" -> 5 ml, "1-2 tbsp" -> 15-30 ml).
  */
 function extractDoseAndUnit(sig: string): {
   dose: number | undefined;
   doseUnit: string | undefined;
+  doseMin?: number;
+  doseMax?: number;
+} {
+  const parsed = matchDoseAndUnit(sig);
+  const mlPerUnit = parsed.doseUnit
+    ? HOUSEHOLD_VOLUME_ML[parsed.doseUnit]
+    : undefined;
+  if (mlPerUnit === undefined) {
+    return parsed;
+  }
+
+  const toMl = (value: number | undefined) =>
+    value !== undefined ? toNumber(multiply(value, mlPerUnit)) : undefined;
+  return {
+    dose: toMl(parsed.dose),
+    doseUnit: "ml",
+    ...(parsed.doseMin !== undefined && {
+      doseMin: toMl(parsed.doseMin),
+      doseMax: toMl(parsed.doseMax),
+    }),
+  };
+}
+
+/**
+ * Matches dose and doseUnit in SIG text.
+ * Handles patterns like "1 tablet", "2 tabs", "10mg", "5 ml", etc.
+ * Dose ranges like "1-2 tablets" return the bounds in doseMin/doseMax and the upper bound as dose.
+ */
+function matchDoseAndUnit(sig: string): {
+  dose: number | undefined;
+  doseUnit: string | undefined;
+  doseMin?: number;
+  doseMax?: number;
 } {
+  // Pattern 0: "X-Y unit" or "X to Y unit" (e.g., "1-2 tablets", "5 to 10 ml")
+  const rangePattern =
+    /(\d+(?:\.\d+)?)\s*(?:-|–|to)\s*(\d+(?:\.\d+)?)\s*([a-z]+)\b/i;
+  const rangeMatch = rangePattern.exec(sig);
+  if (rangeMatch) {
+    const doseMin = Number.parseFloat(rangeMatch[1] ?? "");
+    const doseMax = Number.parseFloat(rangeMatch[2] ?? "");
+    const unit = rangeMatch[3];
+    const normalizedUnit = unit ? normalizeUnit(unit) : undefined;
+    // Only accept known dose units so "q4-6 hours" or "1-2 times" are not read as doses
+    if (
+      !Number.isNaN(doseMin) &&
+      !Number.isNaN(doseMax) &&
+      doseMin < doseMax &&
+      normalizedUnit &&
+      Object.values(UNIT_NORMALIZATION).includes(normalizedUnit)
+    ) {
+      return {
+        dose: doseMax,
+        doseUnit: normalizedUnit,
+        doseMin,
+        doseMax,
+      };
+    }
+  }
+
+  // Pattern 0b: "strength x count units" (e.g., "2.5 mg x4 tabs") - the count is the dose
+  const strengthCountPattern =
+    /\d+(?:\.\d+)?\s*(?:mg|mcg|g)\s*(?:x|×)\s*(\d+(?:\.\d+)?)\s*(tabs?|tablets?|caps?|capsules?)\b/i;
+  const strengthCountMatch = strengthCountPattern.exec(sig);
+  if (strengthCountMatch) {
+    const count = Number.parseFloat(strengthCountMatch[1] ?? "");
+    const unit = strengthCountMatch[2];
+    if (!Number.isNaN(count) && unit) {
+      return {
+        dose: count,
+        doseUnit: normalizeUnit(unit),
+      };
+    }
+  }
+
+  // Pattern 0c: a single patch without a count (e.g., "change patch", "apply a new patch"),
+  // so a later interval ("every 72 hours") is not read as the dose
+  const impliedPatchPattern =
+    /\b(?:apply|change|replace|wear)\s+(?:(?:a|the|new|one)\s+)*(?:transdermal\s+)?patch\b/i;
+  if (impliedPatchPattern.test(sig)) {
+    return { dose: 1, doseUnit: "patch" };
+  }
+  // "N transdermal patches", where the unit is not the first word after the count
+  const transdermalPatchMatch =
+    /(\d+(?:\.\d+)?)\s+transdermal\s+patch(?:es)?\b/i.exec(sig);
+  if (transdermalPatchMatch) {
+    return {
+      dose: Number.parseFloat(transdermalPatchMatch[1] ?? ""),
+      doseUnit: "patch",
+    };
+  }
+
   // Pattern 1: "X unit" or "X units" (e.g., "1 tablet", "2 tabs", "5 ml")
   const unitPattern = /(\d+(?:\.\d+)?)\s+([a-z]+(?:s)?)\b/gi;
   const unitMatch = unitPattern.exec(sig);
@@ -206,7 +631,10 @@ function extractDoseAndUnit(sig: string): {
       if (!Number.isNaN(doseNum) && unit) {
         return {
           dose: doseNum,
-          doseUnit: normalizeUnit(unit),
+          // "1 and ..." or "2 times daily" states no unit
+          doseUnit: NON_UNIT_WORDS.has(unit.toLowerCase())
+            ? undefined
+            : normalizeUnit(unit),
         };
       }
     }
@@ -263,16 +691,21 @@ function extractDoseAndUnit(sig: string): {
 
 /**
  * Detects special dosage form from SIG text and parsed data.
- * Returns form type: "liquid", "insulin", "inhaler", or undefined.
+ * Returns form type: "liquid", "insulin", "inhaler", "patch", or undefined.
  */
 function detectDosageForm(
   sig: string,
   doseUnit: string | undefined,
   route: string | undefined,
-): "liquid" | "insulin" | "inhaler" | undefined {
+): "liquid" | "insulin" | "inhaler" | "patch" | undefined {
   const lowerSig = sig.toLowerCase();
   const lowerUnit = doseUnit?.toLowerCase() ?? "";
 
+  // Detect transdermal patch (patch dose unit or transdermal route)
+  if (lowerUnit === "patch" || route === "transdermal") {
+    return "patch";
+  }
+
   // Detect inhaler (puffs, sprays, inhalation route)
   if (
     route === "inhalation" ||
@@ -290,7 +723,11 @@ function detectDosageForm(
     lowerSig.includes("units")
   ) {
     // Additional check: if it's clearly insulin context
-    if (lowerSig.includes("insulin") || (lowerUnit === "unit" && lowerSig.includes("subcutaneous"))) {
+    if (
+      lowerSig.includes("insulin") ||
+      (lowerUnit === "unit" &&
+        /\b(?:subcutaneous(?:ly)?|subq|sq|sc)\b/.test(lowerSig))
+    ) {
       return "insulin";
     }
   }
@@ -317,39 +754,163 @@ function detectDosageForm(
  * Parses a SIG string and returns normalized values.
  * Returns partial results if some fields cannot be parsed.
  * Detects special dosage forms (liquid, insulin, inhaler).
+ *
+ * @param sig - SIG text
+ * @param options - Application area and patient weight from the input form
  */
-export function parseSig(sig: string): NormalizedSig {
-  const trimmedSig = sig.trim();
+export function parseSig(
+  sig: string,
+  options: ParseSigOptions = {},
+): NormalizedSig {
+  const { topicalRegions, patientWeightKg } = options;
+  // Fractions and number words become decimals ("one-half" -> "0.5", "1 1/2" -> "1.5")
+  const trimmedSig = normalizeSigNumbers(sig.trim());
 
   if (!trimmedSig) {
     return {};
   }
 
-  const { dose, doseUnit } = extractDoseAndUnit(trimmedSig);
-  const frequencyPerDay = extractFrequencyPerDay(trimmedSig);
-  const route = extractRoute(trimmedSig);
+  // Remove the daily maximum clause first so its number is not read as the dose or frequency
+  const doseProbe = extractDoseAndUnit(trimmedSig);
+  const { maxDailyDose, maxDailyDoseUnit, remainder } = extractMaxDailyDose(
+    trimmedSig,
+    doseProbe.dose,
+    doseProbe.doseUnit,
+  );
+
+  const parsedDose = extractDoseAndUnit(remainder);
+  // Per-kg SIGs ("10 mg/kg/day") have no fixed dose until a weight is applied
+  const weightBasedDose = extractWeightBasedDose(remainder);
+  const { dose, doseUnit, doseMin, doseMax } = weightBasedDose
+    ? {
+        dose: undefined,
+        doseMin: undefined,
+        doseMax: undefined,
+        doseUnit: weightBasedDose.unit,
+      }
+    : parsedDose;
+  const frequencyRange = extractFrequencyRange(remainder);
+  // For frequency ranges, frequencyPerDay holds the upper bound
+  const parsedFrequencyPerDay =
+    frequencyRange?.max ??
+    extractFrequencyPerDay(remainder) ??
+    extractDividedDoses(remainder);
+  const parsedRoute = extractRoute(remainder);
+  // Eye/ear site ("each eye", "OU"); the dose is per site
+  const { site, siteMultiplier, siteRoute } = extractAdministrationSite(
+    remainder,
+    doseUnit,
+    parsedRoute,
+  );
+  const route = parsedRoute ?? siteRoute;
+  const { prn, prnIndication } = extractPrn(remainder);
+  // Sliding-scale insulin is dosed from the stated daily maximum
+  const slidingScale = /\b(?:sliding|correction(?:al)?)\s+scale\b|\bSSI\b/i.test(
+    remainder,
+  );
+  const steps = extractSteps(remainder);
+  // Phases that do not all parse are not merged into one instruction (dose from one, duration from another)
+  const unparsedSteps = !steps && splitPhases(remainder).length >= 2;
+  const clauses = steps || unparsedSteps ? undefined : extractClauses(remainder);
+  // Course length ("for 10 days", "x7d"); phases carry their own durations
+  const durationDays = steps ? undefined : extractDurationDays(remainder);
+  // Weekly, every-N-days, and weekday schedules (phases and clauses carry their own frequency)
+  const { schedule, frequencyPerDay } =
+    steps || clauses
+      ? { schedule: undefined, frequencyPerDay: parsedFrequencyPerDay }
+      : extractSchedule(remainder, parsedFrequencyPerDay);
+  // Recognized abbreviations, once each, for display
+  const frequencyTokens = [
+    ...new Map(
+      matchSigTokens(remainder).map(({ token, text, meaning }) => [
+        `${token}:${text}`,
+        { token, text, meaning },
+      ]),
+    ).values(),
+  ];
 
   // Detect dosage form
-  const form = detectDosageForm(trimmedSig, doseUnit, route);
+  const form =
+    detectDosageForm(trimmedSig, doseUnit, route) ??
+    (slidingScale ? "insulin" : undefined);
+  // Patches are applied to the skin ("apply") but absorbed transdermally
+  const resolvedRoute =
+    form === "patch" && (route === undefined || route === "topical")
+      ? "transdermal"
+      : route;
+
+  // Multi-step SIGs report the first phase as the headline dose and frequency
+  const firstStep = steps?.[0];
+  // Compound SIGs report the first clause dose, total administrations, and total daily dose
+  const firstClause = clauses?.[0];
+  const clauseFrequencyPerDay = clauses?.reduce(
+    (total, clause) => total + clause.frequencyPerDay,
+    0,
+  );
+  const totalDailyDose = clauses?.reduce(
+    (total, clause) => total + clause.dose * clause.frequencyPerDay,
+    0,
+  );
 
-  return {
-    dose,
-    doseUnit,
-    frequencyPerDay,
-    route,
+  const normalized: NormalizedSig = {
+    dose: unparsedSteps ? undefined : (firstStep?.dose ?? firstClause?.dose ?? dose),
+    doseMin: unparsedSteps ? undefined : doseMin,
+    doseMax: unparsedSteps ? undefined : doseMax,
+    // Sliding-scale SIGs may state units only in the daily maximum ("max 30 units/day")
+    doseUnit:
+      firstStep?.doseUnit ??
+      firstClause?.doseUnit ??
+      doseUnit ??
+      (slidingScale ? maxDailyDoseUnit : undefined),
+    frequencyPerDay: unparsedSteps
+      ? undefined
+      : (firstStep?.frequencyPerDay ?? clauseFrequencyPerDay ?? frequencyPerDay),
+    frequencyPerDayMin: unparsedSteps ? undefined : frequencyRange?.min,
+    frequencyPerDayMax: unparsedSteps ? undefined : frequencyRange?.max,
+    route: resolvedRoute,
+    site,
+    siteMultiplier,
     dosageForm: form, // Add detected dosage form to normalized SIG
+    prn: prn || undefined,
+    prnIndication,
+    slidingScale: slidingScale || undefined,
+    weightBasedDose,
+    maxDailyDose,
+    maxDailyDoseUnit,
+    steps,
+    unparsedSteps: unparsedSteps || undefined,
+    clauses,
+    totalDailyDose,
+    schedule: unparsedSteps ? undefined : schedule,
+    durationDays: unparsedSteps ? undefined : durationDays,
+    frequencyTokens: frequencyTokens.length > 0 ? frequencyTokens : undefined,
   };
+
+  // Creams and ointments without a stated amount are sized from the body regions treated
+  const topical = estimateTopicalDose(
+    normalized,
+    topicalRegions && topicalRegions.length > 0
+      ? topicalRegions
+      : extractTopicalRegions(remainder),
+  );
+  return applyPatientWeight(topical, patientWeightKg);
 }
 
 /**
  * Determines if a parsed SIG is complete or partial.
  * Complete means we have at least dose and frequencyPerDay.
+ * PRN SIGs with a daily maximum are complete without a frequency.
  */
 export function isSigComplete(parsed: NormalizedSig): boolean {
+  // Sliding-scale SIGs need a daily maximum; the per-dose amount varies
+  if (parsed.slidingScale) {
+    return parsed.maxDailyDose !== undefined && parsed.doseUnit !== undefined;
+  }
   return (
     parsed.dose !== undefined &&
     parsed.doseUnit !== undefined &&
-    parsed.frequencyPerDay !== undefined
+    (parsed.frequencyPerDay !== undefined ||
+      (parsed.prn === true && parsed.maxDailyDose !== undefined))
   );
 }
 
@@ -361,13 +922,36 @@ export function getPartialParseWarning(
 ): string | undefined {
   const missing: string[] = [];
 
+  if (parsed.slidingScale) {
+    return parsed.maxDailyDose === undefined
+      ? "Sliding-scale SIG does not state a maximum daily dose. Quantity cannot be calculated until the daily maximum is added."
+      : undefined;
+  }
+
+  if (parsed.weightBasedDose && parsed.dose === undefined) {
+    return parsed.patientWeightKg === undefined
+      ? "Per-kg SIG requires the patient weight. Enter the weight to calculate the dose."
+      : "Per-day dose (mg/kg/day) does not state how many doses per day. Add the frequency to calculate the dose.";
+  }
+
+  if (parsed.unparsedSteps) {
+    return "Multi-step SIG (\"then\") could not be split into phases with a dose, frequency, and duration each. Quantity cannot be calculated; enter the total quantity or confirm each phase.";
+  }
+
+  if (parsed.route === "topical" && parsed.dose === undefined) {
+    return "Topical SIG does not state an amount or body area. Choose the application area to estimate grams from fingertip units.";
+  }
+
   if (parsed.dose === undefined) {
     missing.push("dose");
   }
   if (parsed.doseUnit === undefined) {
     missing.push("dose unit");
   }
-  if (parsed.frequencyPerDay === undefined) {
+  if (
+    parsed.frequencyPerDay === undefined &&
+    !(parsed.prn === true && parsed.maxDailyDose !== undefined)
+  ) {
     missing.push("frequency");
   }
 
@@ -375,5 +959,10 @@ export function getPartialParseWarning(
     return `Could not parse ${missing.join(", ")} from SIG. Some calculations may be incomplete.`;
   }
 
+  // An unknown word after the dose ("2 puffers") is used as the unit but may not be one
+  if (parsed.doseUnit !== undefined && !isRecognizedDoseUnit(parsed.doseUnit)) {
+    return `Dose unit "${parsed.doseUnit}" is not recognized. The quantity is calculated in "${parsed.doseUnit}"; confirm the dose and unit.`;
+  }
+
   return undefined;
 }
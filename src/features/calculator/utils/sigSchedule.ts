@@ -0,0 +1,213 @@
+/**
+ * Non-daily SIG schedules.
+ * Parses weekly, every-N-days, monthly, and specific-weekday schedules,
+ * and counts administrations within a days supply.
+ */
+
+import type { SigSchedule } from "../types";
+import { normalizeSigText } from "./sigLexicon";
+
+/**
+ * Weekday names and abbreviations mapped to day numbers (0 = Sunday).
+ */
+const WEEKDAY_NAMES: Record<string, number> = {
+  sunday: 0,
+  sun: 0,
+  monday: 1,
+  mon: 1,
+  tuesday: 2,
+  tues: 2,
+  tue: 2,
+  wednesday: 3,
+  wed: 3,
+  thursday: 4,
+  thurs: 4,
+  thur: 4,
+  thu: 4,
+  friday: 5,
+  fri: 5,
+  saturday: 6,
+  sat: 6,
+};
+
+/**
+ * Compact weekday shorthand (e.g., "MWF").
+ */
+const WEEKDAY_SHORTHAND: Record<string, number[]> = {
+  mwf: [1, 3, 5],
+  tth: [2, 4],
+  tuth: [2, 4],
+};
+
+/**
+ * Short weekday labels for display, indexed by day number.
+ */
+export const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+/**
+ * Day lengths of interval units.
+ */
+const INTERVAL_UNIT_DAYS: Record<string, number> = {
+  d: 1,
+  day: 1,
+  days: 1,
+  wk: 7,
+  wks: 7,
+  week: 7,
+  weeks: 7,
+  mo: 30,
+  month: 30,
+  months: 30,
+};
+
+/**
+ * Extracts specific dosing weekdays (e.g., "on Mon/Wed/Fri", "every Monday", "MWF").
+ * Abbreviations ("sun", "sat") only count when at least two days are listed,
+ * so words like "avoid sun" are not read as a schedule.
+ *
+ * @param text - Normalized SIG text
+ * @returns Sorted unique day numbers, or undefined if no weekday schedule is found
+ */
+function extractWeekdays(text: string): number[] | undefined {
+  for (const [shorthand, days] of Object.entries(WEEKDAY_SHORTHAND)) {
+    if (new RegExp(`\\b${shorthand}\\b`).test(text)) {
+      return days;
+    }
+  }
+
+  const fullNames = new Set<number>();
+  const allNames = new Set<number>();
+  const weekdayRegex =
+    /\b(sunday|sun|monday|mon|tuesday|tues|tue|wednesday|wed|thursday|thurs|thur|thu|friday|fri|saturday|sat)s?\b/g;
+  let match: RegExpExecArray | null;
+  while ((match = weekdayRegex.exec(text)) !== null) {
+    const name = match[1] ?? "";
+    const day = WEEKDAY_NAMES[name];
+    if (day === undefined) {
+      continue;
+    }
+    allNames.add(day);
+    if (name.endsWith("day")) {
+      fullNames.add(day);
+    }
+  }
+
+  const days = allNames.size >= 2 ? allNames : fullNames;
+  return days.size > 0 ? [...days].sort((a, b) => a - b) : undefined;
+}
+
+/**
+ * Extracts an "every N days/weeks/months" interval not covered by the lexicon
+ * (e.g., "every 3 days", "q3d", "every 4 weeks", "every 3 months").
+ *
+ * @param text - Normalized SIG text
+ * @returns Interval length in days, or undefined if not found
+ */
+function extractIntervalDays(text: string): number | undefined {
+  const intervalRegex =
+    /(?:every\s*|\bq\s*)(\d+)\s*(d|days?|wks?|weeks?|mo|months?)\b/;
+  const match = intervalRegex.exec(text);
+  if (!match) {
+    return undefined;
+  }
+
+  const count = Number.parseInt(match[1] ?? "", 10);
+  const unitDays = INTERVAL_UNIT_DAYS[match[2] ?? ""];
+  if (Number.isNaN(count) || count <= 0 || unitDays === undefined) {
+    return undefined;
+  }
+
+  return count * unitDays;
+}
+
+/**
+ * Extracts a non-daily schedule and resolves the average frequency per day.
+ * Weekday schedules keep a daily frequency (e.g., "bid on Mon/Wed/Fri") as doses per dosing day;
+ * less-than-daily frequencies from the lexicon (qod, weekly, monthly) become intervals.
+ *
+ * @param sig - SIG text
+ * @param frequencyPerDay - Frequency per day parsed from the SIG, if any
+ * @returns Schedule (undefined for daily SIGs) and the average frequency per day
+ */
+export function extractSchedule(
+  sig: string,
+  frequencyPerDay: number | undefined,
+): { schedule?: SigSchedule; frequencyPerDay?: number } {
+  const text = normalizeSigText(sig);
+
+  const weekdays = extractWeekdays(text);
+  if (weekdays) {
+    const dosesPerDay =
+      frequencyPerDay !== undefined && frequencyPerDay >= 1
+        ? frequencyPerDay
+        : undefined;
+    return {
+      schedule: { type: "weekdays", weekdays, dosesPerDay },
+      frequencyPerDay: ((dosesPerDay ?? 1) * weekdays.length) / 7,
+    };
+  }
+
+  const intervalDays = extractIntervalDays(text);
+  if (intervalDays !== undefined && intervalDays > 1) {
+    return {
+      schedule: { type: "interval", everyDays: intervalDays },
+      frequencyPerDay: frequencyPerDay ?? 1 / intervalDays,
+    };
+  }
+
+  if (frequencyPerDay !== undefined && frequencyPerDay > 0 && frequencyPerDay < 1) {
+    return {
+      schedule: {
+        type: "interval",
+        everyDays: Math.round((1 / frequencyPerDay) * 100) / 100,
+      },
+      frequencyPerDay,
+    };
+  }
+
+  return { frequencyPerDay };
+}
+
+/**
+ * Counts administrations within a days supply, including partial weeks and intervals.
+ * The first dose is taken on day 1 (the first listed weekday for weekday schedules).
+ *
+ * @param schedule - Non-daily schedule
+ * @param daysSupply - Days supply
+ * @returns Number of administrations, or 0 if the schedule or days supply is invalid
+ */
+export function countAdministrations(
+  schedule: SigSchedule,
+  daysSupply: number,
+): number {
+  if (!Number.isFinite(daysSupply) || daysSupply <= 0) {
+    return 0;
+  }
+
+  const wholeDays = Math.floor(daysSupply);
+  const dosesPerDay = schedule.dosesPerDay ?? 1;
+
+  if (schedule.type === "weekdays") {
+    const weekdays = new Set(schedule.weekdays ?? []);
+    const firstDay = schedule.weekdays?.[0];
+    if (firstDay === undefined) {
+      return 0;
+    }
+
+    let dosingDays = 0;
+    for (let day = 0; day < wholeDays; day++) {
+      if (weekdays.has((firstDay + day) % 7)) {
+        dosingDays++;
+      }
+    }
+    return dosingDays * dosesPerDay;
+  }
+
+  const everyDays = schedule.everyDays;
+  if (everyDays === undefined || everyDays <= 0) {
+    return 0;
+  }
+
+  // Small tolerance so rounded intervals (e.g., 2.33 for three times weekly) land on whole days
+  return (Math.floor((wholeDays - 1) / everyDays + 1e-6) + 1) * dosesPerDay;
+}
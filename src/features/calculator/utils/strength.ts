@@ -0,0 +1,375 @@
+/**
+ * Product strength parsing and dose conversion.
+ * Converts mass doses ("500 mg") into dispensable units ("2 tablets", "10 mL") using the
+ * resolved product strength (RxNorm or NDC "250 mg/1") or liquid concentration ("250 mg/5 mL").
+ */
+
+import type { NdcCandidate, NormalizedSig } from "../types";
+import type { ExactSig } from "./administrationSite";
+import { divide, multiply, toNumber, type Rational } from "./decimal";
+
+/**
+ * Parsed product strength: amount of drug per dispensable unit (one tablet or capsule).
+ */
+export type ParsedStrength = {
+  amount: number; // e.g., 250
+  unit: string; // Normalized amount unit (e.g., "mg", "mcg", "unit")
+};
+
+/**
+ * Conversion factors from mass units to milligrams.
+ */
+const MASS_UNIT_TO_MG: Record<string, number> = {
+  mcg: 0.001,
+  ug: 0.001,
+  µg: 0.001,
+  microgram: 0.001,
+  micrograms: 0.001,
+  mg: 1,
+  milligram: 1,
+  milligrams: 1,
+  g: 1000,
+  gram: 1000,
+  grams: 1000,
+};
+
+/**
+ * Strength units that are not masses but can still be matched to a dose in the same unit.
+ */
+const OTHER_STRENGTH_UNITS: Record<string, string> = {
+  meq: "meq",
+  unit: "unit",
+  units: "unit",
+  iu: "unit",
+};
+
+/**
+ * Normalizes a strength or dose unit ("MG" -> "mg", "micrograms" -> "mcg", "IU" -> "unit").
+ * Returns undefined for units that are not strength units.
+ */
+export function normalizeStrengthUnit(
+  unit: string | undefined,
+): string | undefined {
+  if (!unit) {
+    return undefined;
+  }
+  const lower = unit.toLowerCase().trim();
+  const massFactor = MASS_UNIT_TO_MG[lower];
+  if (massFactor !== undefined) {
+    return massFactor === 1 ? "mg" : massFactor < 1 ? "mcg" : "g";
+  }
+  return OTHER_STRENGTH_UNITS[lower];
+}
+
+/**
+ * Returns true if the unit is a strength unit (mass, mEq, or units), i.e. not a dispensable unit.
+ */
+export function isStrengthUnit(unit: string | undefined): boolean {
+  return normalizeStrengthUnit(unit) !== undefined;
+}
+
+/**
+ * Parses a single-ingredient strength per dispensable unit.
+ * Handles "250 mg", "250 MG", "250mg", and NDC-style "250 mg/1".
+ * Returns null for combination products ("5 mg/1, 325 mg/1") and per-volume strengths
+ * (see parseConcentration).
+ *
+ * @param strength - Strength string from RxNorm or the NDC directory
+ * @returns Parsed strength, or null if it cannot be used for conversion
+ */
+export function parseStrength(
+  strength: string | undefined,
+): ParsedStrength | null {
+  if (!strength || strength.includes(",")) {
+    return null;
+  }
+
+  const strengthRegex =
+    /^\s*(\d+(?:\.\d+)?)\s*([a-zµ]+)\s*(?:\/\s*1(?:\s*(?:tab|tablet|cap|capsule|each|ea))?)?\s*$/i;
+  const match = strengthRegex.exec(strength);
+  if (!match) {
+    return null;
+  }
+
+  const amount = Number.parseFloat(match[1] ?? "");
+  const unit = normalizeStrengthUnit(match[2]);
+  if (Number.isNaN(amount) || amount <= 0 || !unit) {
+    return null;
+  }
+
+  return { amount, unit };
+}
+
+/**
+ * Parsed liquid concentration: amount of drug per volume.
+ */
+export type ParsedConcentration = {
+  amount: number; // e.g., 250
+  unit: string; // Normalized amount unit (e.g., "mg", "mcg")
+  volumeMl: number; // Volume the amount is contained in (e.g., 5)
+};
+
+/**
+ * Volume units converted to milliliters.
+ */
+const VOLUME_UNIT_TO_ML: Record<string, number> = {
+  ml: 1,
+  l: 1000,
+};
+
+/**
+ * Parses a single-ingredient liquid concentration.
+ * Handles "250 mg/5 mL", "40 mg/mL", "100 mcg/0.5 mL", NDC-style "40 mg/.4mL", and RxNorm-style "250 MG/5ML".
+ *
+ * @param strength - Strength string from RxNorm or the NDC directory
+ * @returns Parsed concentration, or null if the strength is not a per-volume strength
+ */
+export function parseConcentration(
+  strength: string | undefined,
+): ParsedConcentration | null {
+  if (!strength || strength.includes(",")) {
+    return null;
+  }
+
+  const concentrationRegex =
+    /^\s*(\d*\.?\d+)\s*([a-zµ]+)\s*\/\s*(\d*\.?\d+)?\s*(ml|l)\s*$/i;
+  const match = concentrationRegex.exec(strength);
+  if (!match) {
+    return null;
+  }
+
+  const amount = Number.parseFloat(match[1] ?? "");
+  const unit = normalizeStrengthUnit(match[2]);
+  const volume = match[3] ? Number.parseFloat(match[3]) : 1;
+  const volumeFactor = VOLUME_UNIT_TO_ML[(match[4] ?? "").toLowerCase()];
+  if (
+    Number.isNaN(amount) ||
+    Number.isNaN(volume) ||
+    amount <= 0 ||
+    volume <= 0 ||
+    !unit ||
+    volumeFactor === undefined
+  ) {
+    return null;
+  }
+
+  return { amount, unit, volumeMl: toNumber(multiply(volume, volumeFactor)) };
+}
+
+/**
+ * Converts an amount between strength units.
+ * Mass units convert through milligrams; other units must match exactly.
+ *
+ * @param value - Amount to convert
+ * @param fromUnit - Source unit
+ * @param toUnit - Target unit
+ * @returns Exact converted amount, or undefined if the units are incompatible
+ */
+export function convertStrengthAmount(
+  value: number | Rational,
+  fromUnit: string,
+  toUnit: string,
+): number | Rational | undefined {
+  const from = normalizeStrengthUnit(fromUnit);
+  const to = normalizeStrengthUnit(toUnit);
+  if (!from || !to) {
+    return undefined;
+  }
+  if (from === to) {
+    return value;
+  }
+
+  const fromFactor = MASS_UNIT_TO_MG[from];
+  const toFactor = MASS_UNIT_TO_MG[to];
+  if (fromFactor === undefined || toFactor === undefined) {
+    return undefined;
+  }
+  return divide(multiply(value, fromFactor), toFactor);
+}
+
+/**
+ * Resolves the dispensable unit for solid products from NDC unit/dosage form or the RxNorm form.
+ * Returns undefined when the product is not a tablet or capsule.
+ */
+export function resolveSolidDispenseUnit(
+  ...forms: Array<string | undefined>
+): "tablet" | "capsule" | undefined {
+  for (const form of forms) {
+    const upper = form?.toUpperCase() ?? "";
+    if (upper.includes("TABLET")) {
+      return "tablet";
+    }
+    if (upper.includes("CAPSULE")) {
+      return "capsule";
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Returns true if the value is an exact multiple of the step,
+ * e.g. step 0.5 for tablets that may be halved, 1 for capsules.
+ */
+export function isMultipleOf(
+  value: number | Rational,
+  step: number | Rational,
+): boolean {
+  return divide(value, step).denominator === 1n;
+}
+
+/**
+ * Record of a strength dose converted to dispensable units, for display and warnings.
+ */
+export type StrengthConversion = {
+  strength: string; // Product strength as written (e.g., "250 mg/1")
+  strengthAmount: number;
+  strengthUnit: string;
+  strengthVolumeMl?: number; // Volume per strength amount for liquid concentrations (e.g., 5)
+  doseAmount: number; // Original dose (upper bound for ranges)
+  doseAmountUnit: string;
+  unitsPerDose: number; // Dispensable units per dose (e.g., 2 tablets or 10 mL)
+  dispenseUnit: string; // "tablet", "capsule", or "ml"
+};
+
+/**
+ * Strength basis for converting doses: amount of drug per quantity of dispensable unit.
+ */
+type DoseBasis = {
+  text: string; // Strength as written
+  amount: number;
+  unit: string;
+  perQuantity: number; // 1 for tablets/capsules, mL volume for concentrations
+  dispenseUnit: string; // "tablet", "capsule", or "ml"
+};
+
+/**
+ * Resolves the strength basis from one strength string: a solid strength for tablet/capsule
+ * products, or a liquid concentration dispensed in mL.
+ */
+function resolveDoseBasis(
+  strengthText: string | undefined,
+  solidDispenseUnit: "tablet" | "capsule" | undefined,
+): DoseBasis | null {
+  if (!strengthText) {
+    return null;
+  }
+
+  const concentration = parseConcentration(strengthText);
+  if (concentration) {
+    return {
+      text: strengthText,
+      amount: concentration.amount,
+      unit: concentration.unit,
+      perQuantity: concentration.volumeMl,
+      dispenseUnit: "ml",
+    };
+  }
+
+  const strength = parseStrength(strengthText);
+  if (strength && solidDispenseUnit) {
+    return {
+      text: strengthText,
+      amount: strength.amount,
+      unit: strength.unit,
+      perQuantity: 1,
+      dispenseUnit: solidDispenseUnit,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Converts a SIG with strength doses ("500 mg") into dispensable units ("2 tablets", "10 mL")
+ * using the product strength or concentration (NDC first, then RxNorm).
+ * Dose, dose range, clause and phase doses, total daily dose, and a daily maximum in a strength unit
+ * are all converted. Returns the SIG unchanged when the dose is already in dispensable units,
+ * the strength is unknown, or a solid strength has no tablet or capsule form.
+ *
+ * @param normalizedSig - Normalized SIG
+ * @param product - Selected or candidate NDC product
+ * @returns Converted SIG with exact doses and the conversion applied, if any
+ */
+export function convertSigToDispensableUnits(
+  normalizedSig: NormalizedSig,
+  product: NdcCandidate | null | undefined,
+): { sig: ExactSig; conversion?: StrengthConversion } {
+  const { dose, doseUnit } = normalizedSig;
+  if (dose === undefined || !isStrengthUnit(doseUnit) || !doseUnit) {
+    return { sig: normalizedSig };
+  }
+
+  const solidDispenseUnit = resolveSolidDispenseUnit(
+    product?.unit,
+    product?.dosageForm,
+    normalizedSig.form,
+  );
+  const basis =
+    resolveDoseBasis(product?.strength, solidDispenseUnit) ??
+    resolveDoseBasis(normalizedSig.strength, solidDispenseUnit);
+  if (!basis) {
+    return { sig: normalizedSig };
+  }
+  const dispenseUnit = basis.dispenseUnit;
+
+  // Dispensable units per 1 unit of the given dose unit
+  const toUnits = (value: number | undefined, unit: string | undefined) => {
+    if (value === undefined || !unit) {
+      return undefined;
+    }
+    const amount = convertStrengthAmount(value, unit, basis.unit);
+    return amount !== undefined
+      ? multiply(divide(amount, basis.amount), basis.perQuantity)
+      : undefined;
+  };
+
+  const unitsPerDose = toUnits(dose, doseUnit);
+  if (unitsPerDose === undefined) {
+    return { sig: normalizedSig };
+  }
+
+  const maxDailyDoseUnits = isStrengthUnit(normalizedSig.maxDailyDoseUnit)
+    ? toUnits(normalizedSig.maxDailyDose, normalizedSig.maxDailyDoseUnit)
+    : undefined;
+
+  return {
+    sig: {
+      ...normalizedSig,
+      dose: unitsPerDose,
+      doseMin: toUnits(normalizedSig.doseMin, doseUnit),
+      doseMax: toUnits(normalizedSig.doseMax, doseUnit),
+      doseUnit: dispenseUnit,
+      dosageForm: dispenseUnit === "ml" ? "liquid" : normalizedSig.dosageForm,
+      totalDailyDose: toUnits(normalizedSig.totalDailyDose, doseUnit),
+      clauses: normalizedSig.clauses?.map((clause) => ({
+        ...clause,
+        dose: toUnits(clause.dose, clause.doseUnit) ?? clause.dose,
+        doseUnit: isStrengthUnit(clause.doseUnit)
+          ? dispenseUnit
+          : clause.doseUnit,
+      })),
+      steps: normalizedSig.steps?.map((step) => {
+        const stepUnits = isStrengthUnit(step.doseUnit)
+          ? toUnits(step.dose, step.doseUnit)
+          : undefined;
+        return stepUnits !== undefined
+          ? { ...step, dose: stepUnits, doseUnit: dispenseUnit }
+          : step;
+      }),
+      ...(maxDailyDoseUnits !== undefined && {
+        maxDailyDose: maxDailyDoseUnits,
+        maxDailyDoseUnit: dispenseUnit,
+      }),
+    },
+    conversion: {
+      strength: basis.text,
+      strengthAmount: basis.amount,
+      strengthUnit: basis.unit,
+      strengthVolumeMl: dispenseUnit === "ml" ? basis.perQuantity : undefined,
+      doseAmount: dose,
+      doseAmountUnit: doseUnit,
+      unitsPerDose: toNumber(unitsPerDose),
+      dispenseUnit,
+    },
+  };
+}
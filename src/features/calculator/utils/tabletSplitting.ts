@@ -0,0 +1,102 @@
+/**
+ * Split-tablet checks.
+ * Flags fractional tablet doses when the selected product is not known to be scored.
+ */
+
+import type { NdcCandidate, NormalizedSig, Warning } from "../types";
+
+/**
+ * Dosage form markers for products that should not be split.
+ */
+const NON_SPLITTABLE_FORMS = [
+  "CAPSULE",
+  "EXTENDED RELEASE",
+  "DELAYED RELEASE",
+  "ORALLY DISINTEGRATING",
+  "CHEWABLE",
+];
+
+/**
+ * Returns true if the dose (or either end of a dose range) is a fraction of a tablet.
+ */
+function hasFractionalTabletDose(normalizedSig: NormalizedSig): boolean {
+  if (normalizedSig.doseUnit !== "tablet") {
+    return false;
+  }
+
+  const doses = [
+    normalizedSig.dose,
+    normalizedSig.doseMin,
+    normalizedSig.doseMax,
+    ...(normalizedSig.steps?.map((step) => step.dose) ?? []),
+  ];
+  return doses.some((dose) => dose !== undefined && !Number.isInteger(dose));
+}
+
+/**
+ * Describes why the product is not known to be scored.
+ * Scoring is inferred from the FDA dosage form, product name, and package description,
+ * since the NDC directory has no scoring field.
+ *
+ * @param selectedNdc - Selected NDC candidate
+ * @returns Reason the product is not known to be scored, or undefined if it is scored
+ */
+function getUnscoredReason(selectedNdc: NdcCandidate): string | undefined {
+  const text = [
+    selectedNdc.dosageForm,
+    selectedNdc.productName,
+    selectedNdc.packageDescription,
+  ]
+    .filter(Boolean)
+    .join(" ")
+    .toUpperCase();
+
+  const nonSplittableForm = NON_SPLITTABLE_FORMS.find((form) =>
+    text.includes(form),
+  );
+  if (nonSplittableForm) {
+    return `${nonSplittableForm.toLowerCase()} products should not be split`;
+  }
+
+  if (/\bSCORED\b/.test(text) && !/\bUNSCORED\b/.test(text)) {
+    return undefined;
+  }
+
+  return "the product is not listed as scored";
+}
+
+/**
+ * Detects split-tablet doses (e.g., "½ tablet") for a product that is not known to be scored.
+ *
+ * @param normalizedSig - Normalized SIG
+ * @param selectedNdc - Selected NDC candidate
+ * @returns Array with an info warning, or empty if no split is needed or the product is scored
+ */
+export function detectSplitTabletWarning(
+  normalizedSig: NormalizedSig | null,
+  selectedNdc: NdcCandidate | null,
+): Warning[] {
+  if (!normalizedSig || !selectedNdc || !hasFractionalTabletDose(normalizedSig)) {
+    return [];
+  }
+
+  const reason = getUnscoredReason(selectedNdc);
+  if (!reason) {
+    return [];
+  }
+
+  return [
+    {
+      type: "split_tablet",
+      severity: "info",
+      message: `SIG requires splitting tablets, but ${reason} (${selectedNdc.productName}). Consider a lower-strength product or confirm splitting with the prescriber.`,
+      field: "sig",
+      details: {
+        dose: normalizedSig.dose,
+        doseUnit: normalizedSig.doseUnit,
+        ndc: selectedNdc.ndc,
+        dosageForm: selectedNdc.dosageForm,
+      },
+    },
+  ];
+}
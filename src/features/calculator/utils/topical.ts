@@ -0,0 +1,237 @@
+/**
+ * Topical cream and ointment estimation.
+ * Sizes "apply a thin layer" SIGs in fingertip units (FTU) for the body regions treated
+ * (adult values, Long & Finlay), converts them to grams (1 FTU ≈ 0.5 g), and picks the
+ * tube size that covers the quantity with the least waste.
+ */
+
+import type { NdcCandidate, NormalizedSig, TopicalRegion } from "../types";
+import {
+  add,
+  divide,
+  multiply,
+  roundRational,
+  subtract,
+  toNumber,
+} from "./decimal";
+import { isSameProduct } from "./packageOptimizer";
+
+/**
+ * Grams of cream or ointment in one fingertip unit (adult fingertip, 5 mm nozzle).
+ */
+export const GRAMS_PER_FTU = 0.5;
+
+/**
+ * Body region for topical estimation.
+ */
+type TopicalRegionInfo = {
+  label: string; // Display label
+  fingertipUnits: number; // FTU per application for the region
+};
+
+export const TOPICAL_REGIONS: Record<TopicalRegion, TopicalRegionInfo> = {
+  face_neck: { label: "Face and neck", fingertipUnits: 2.5 },
+  one_hand: { label: "One hand", fingertipUnits: 1 },
+  both_hands: { label: "Both hands", fingertipUnits: 2 },
+  one_arm: { label: "One arm", fingertipUnits: 3 },
+  both_arms: { label: "Both arms", fingertipUnits: 6 },
+  one_foot: { label: "One foot", fingertipUnits: 2 },
+  both_feet: { label: "Both feet", fingertipUnits: 4 },
+  one_leg: { label: "One leg", fingertipUnits: 6 },
+  both_legs: { label: "Both legs", fingertipUnits: 12 },
+  trunk_front: { label: "Chest and abdomen", fingertipUnits: 7 },
+  trunk_back: { label: "Back and buttocks", fingertipUnits: 7 },
+};
+
+/**
+ * SIG wording for body regions, checked in order. Matched text is removed before later
+ * patterns run, so "both hands" is not also read as "hand".
+ */
+const REGION_PATTERNS: Array<{ pattern: RegExp; regions: TopicalRegion[] }> = [
+  {
+    pattern: /\b(?:face|neck)(?:\s+and\s+(?:face|neck))?\b/i,
+    regions: ["face_neck"],
+  },
+  { pattern: /\b(?:both|each)\s+hands?\b|\bhands\b/i, regions: ["both_hands"] },
+  { pattern: /\bhand\b/i, regions: ["one_hand"] },
+  { pattern: /\b(?:both|each)\s+arms?\b|\barms\b/i, regions: ["both_arms"] },
+  { pattern: /\barm\b/i, regions: ["one_arm"] },
+  {
+    pattern: /\b(?:both|each)\s+(?:feet|foot)\b|\bfeet\b/i,
+    regions: ["both_feet"],
+  },
+  { pattern: /\bfoot\b/i, regions: ["one_foot"] },
+  { pattern: /\b(?:both|each)\s+legs?\b|\blegs\b/i, regions: ["both_legs"] },
+  { pattern: /\bleg\b/i, regions: ["one_leg"] },
+  { pattern: /\b(?:trunk|torso)\b/i, regions: ["trunk_front", "trunk_back"] },
+  { pattern: /\b(?:chest|abdomen|stomach|belly)\b/i, regions: ["trunk_front"] },
+  { pattern: /\b(?:back(?!\s+of)|buttocks)\b/i, regions: ["trunk_back"] },
+];
+
+/**
+ * Package description pattern for gram-sized packages, e.g. "30 g in 1 TUBE",
+ * "1 TUBE in 1 CARTON > 45 g in 1 TUBE", "454 g in 1 JAR".
+ */
+const GRAM_PACKAGE_PATTERN =
+  /(\d+(?:\.\d+)?)\s*(?:g|grams?)\s+in\s+1\s+([a-z]+)/i;
+
+/**
+ * Best tube (or jar) size for a topical quantity.
+ */
+export type TubeSelection = {
+  candidate: NdcCandidate;
+  tubeGrams: number; // Grams per tube
+  tubeLabel: string; // Container from the package description (e.g., "tube", "jar")
+  tubeCount: number; // Tubes needed to cover the quantity
+  wasteGrams: number; // Grams dispensed beyond the quantity
+};
+
+/**
+ * Returns true for SIGs applied to the skin (not patches, which are counted per patch).
+ */
+export function isTopicalSig(normalizedSig: NormalizedSig): boolean {
+  return (
+    normalizedSig.route === "topical" && normalizedSig.dosageForm !== "patch"
+  );
+}
+
+/**
+ * Extracts the body regions named in a topical SIG.
+ *
+ * @param sig - SIG text
+ * @returns Regions named in the SIG, without duplicates
+ */
+export function extractTopicalRegions(sig: string): TopicalRegion[] {
+  let remaining = sig;
+  const regions = new Set<TopicalRegion>();
+
+  for (const { pattern, regions: patternRegions } of REGION_PATTERNS) {
+    const match = pattern.exec(remaining);
+    if (match) {
+      patternRegions.forEach((region) => regions.add(region));
+      remaining = remaining.replace(match[0], " ");
+    }
+  }
+
+  return [...regions];
+}
+
+/**
+ * Sums fingertip units for a set of body regions.
+ *
+ * @param regions - Body regions treated per application
+ * @returns Fingertip units per application
+ */
+export function sumFingertipUnits(regions: TopicalRegion[]): number {
+  return toNumber(
+    add(...regions.map((region) => TOPICAL_REGIONS[region].fingertipUnits)),
+  );
+}
+
+/**
+ * Fills in grams per application for topical SIGs.
+ * A stated gram dose is kept; a fingertip-unit dose ("2 FTU") is converted to grams;
+ * otherwise the dose is estimated from the regions treated.
+ *
+ * @param normalizedSig - Normalized SIG
+ * @param regions - Regions treated per application (from the SIG or the input form)
+ * @returns SIG with a gram dose, or the SIG unchanged if no amount can be estimated
+ */
+export function estimateTopicalDose(
+  normalizedSig: NormalizedSig,
+  regions: TopicalRegion[],
+): NormalizedSig {
+  if (!isTopicalSig(normalizedSig)) {
+    return normalizedSig;
+  }
+
+  if (normalizedSig.doseUnit === "ftu" && normalizedSig.dose !== undefined) {
+    return {
+      ...normalizedSig,
+      fingertipUnits: normalizedSig.dose,
+      dose: toNumber(multiply(normalizedSig.dose, GRAMS_PER_FTU)),
+      doseMin:
+        normalizedSig.doseMin !== undefined
+          ? toNumber(multiply(normalizedSig.doseMin, GRAMS_PER_FTU))
+          : undefined,
+      doseMax:
+        normalizedSig.doseMax !== undefined
+          ? toNumber(multiply(normalizedSig.doseMax, GRAMS_PER_FTU))
+          : undefined,
+      doseUnit: "g",
+      topicalRegions: regions.length > 0 ? regions : undefined,
+    };
+  }
+
+  if (normalizedSig.dose !== undefined || regions.length === 0) {
+    return normalizedSig;
+  }
+
+  const fingertipUnits = sumFingertipUnits(regions);
+  return {
+    ...normalizedSig,
+    dose: toNumber(multiply(fingertipUnits, GRAMS_PER_FTU)),
+    doseUnit: "g",
+    topicalRegions: regions,
+    fingertipUnits,
+  };
+}
+
+/**
+ * Picks the gram package that covers a topical quantity with the least waste,
+ * preferring fewer tubes on ties and active NDCs over inactive ones. Once an NDC is
+ * selected, only tubes of the same product and strength are considered.
+ *
+ * @param quantityGrams - Grams to dispense
+ * @param reference - Selected NDC, or null to consider every candidate
+ * @param candidates - NDC candidates with package descriptions
+ * @returns Best tube selection, or null if no candidate is sized in grams
+ */
+export function selectTubeSize(
+  quantityGrams: number,
+  reference: NdcCandidate | null,
+  candidates: NdcCandidate[],
+): TubeSelection | null {
+  if (!(quantityGrams > 0)) {
+    return null;
+  }
+
+  const eligible = reference
+    ? [reference, ...candidates].filter(
+        (candidate, index, all) =>
+          isSameProduct(reference, candidate) &&
+          all.findIndex((other) => other.ndc === candidate.ndc) === index,
+      )
+    : candidates;
+
+  const options: TubeSelection[] = eligible.flatMap((candidate) => {
+    const match = GRAM_PACKAGE_PATTERN.exec(candidate.packageDescription ?? "");
+    const tubeGrams = match ? Number.parseFloat(match[1] ?? "") : Number.NaN;
+    if (!(tubeGrams > 0)) {
+      return [];
+    }
+    const tubeCount = toNumber(
+      roundRational(divide(quantityGrams, tubeGrams), 0, "ceiling"),
+    );
+    return [
+      {
+        candidate,
+        tubeGrams,
+        tubeLabel: (match?.[2] ?? "tube").toLowerCase(),
+        tubeCount,
+        wasteGrams: toNumber(
+          subtract(multiply(tubeCount, tubeGrams), quantityGrams),
+        ),
+      },
+    ];
+  });
+
+  options.sort(
+    (a, b) =>
+      Number(b.candidate.active) - Number(a.candidate.active) ||
+      a.wasteGrams - b.wasteGrams ||
+      a.tubeCount - b.tubeCount,
+  );
+
+  return options[0] ?? null;
+}
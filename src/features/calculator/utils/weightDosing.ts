@@ -0,0 +1,117 @@
+/**
+ * Weight-based (per-kg) dosing.
+ * Reads pediatric SIGs written per kilogram ("10 mg/kg/day divided BID", "15 mg/kg q6h")
+ * and converts them to a per-dose amount for the patient's weight. Volume is then derived
+ * from the product concentration by the strength conversion in quantityMath.
+ */
+
+import type {
+  NormalizedSig,
+  PatientWeightUnit,
+  WeightBasedDose,
+} from "../types";
+
+/**
+ * Pounds per kilogram.
+ */
+export const LB_PER_KG = 2.20462;
+
+/**
+ * Per-kg dose pattern, e.g. "10 mg/kg/day", "15 mg/kg/dose", "5 mg/kg per day", "0.1 units/kg".
+ */
+const PER_KG_PATTERN =
+  /(\d+(?:\.\d+)?)\s*(mg|mcg|g|units?)\s*\/\s*kg(?:\s*(?:\/|per)\s*(day|d|24\s*h(?:ours?|rs?)?|dose))?/i;
+
+/**
+ * Divided-dose count, e.g. "in 2 divided doses", "divided into 3 doses".
+ */
+const DIVIDED_DOSES_PATTERN =
+  /\b(?:in|into)\s+(\d+)\s+(?:equally\s+)?divided\s+doses\b|\bdivided\s+(?:in|into)\s+(\d+)\s+doses\b/i;
+
+/**
+ * Converts a patient weight to kilograms.
+ *
+ * @param weight - Weight in the given unit
+ * @param unit - "kg" or "lb"
+ * @returns Weight in kilograms
+ */
+export function toKilograms(weight: number, unit: PatientWeightUnit): number {
+  return unit === "lb" ? weight / LB_PER_KG : weight;
+}
+
+/**
+ * Extracts a per-kg dose from SIG text.
+ *
+ * @param sig - SIG text
+ * @returns Per-kg amount, unit, and whether it is per dose or per day, or undefined
+ */
+export function extractWeightBasedDose(
+  sig: string,
+): WeightBasedDose | undefined {
+  const match = PER_KG_PATTERN.exec(sig);
+  const amount = match ? Number.parseFloat(match[1] ?? "") : Number.NaN;
+  if (!match || !(amount > 0)) {
+    return undefined;
+  }
+
+  const unit = (match[2] ?? "").toLowerCase();
+  const basis = match[3]?.toLowerCase();
+  return {
+    amount,
+    unit: unit.startsWith("unit") ? "unit" : unit,
+    per: basis && basis !== "dose" ? "day" : "dose",
+  };
+}
+
+/**
+ * Extracts the number of divided doses per day ("in 2 divided doses").
+ *
+ * @param sig - SIG text
+ * @returns Doses per day, or undefined if not stated
+ */
+export function extractDividedDoses(sig: string): number | undefined {
+  const match = DIVIDED_DOSES_PATTERN.exec(sig);
+  const count = match
+    ? Number.parseInt(match[1] ?? match[2] ?? "", 10)
+    : Number.NaN;
+  return count > 0 ? count : undefined;
+}
+
+/**
+ * Computes the per-dose amount of a weight-based SIG for a patient weight.
+ * Daily amounts ("mg/kg/day") are divided across the doses per day.
+ *
+ * @param normalizedSig - Normalized SIG with a weight-based dose
+ * @param patientWeightKg - Patient weight in kilograms
+ * @returns SIG with the per-dose amount, or the SIG unchanged if the dose cannot be computed
+ */
+export function applyPatientWeight(
+  normalizedSig: NormalizedSig,
+  patientWeightKg: number | undefined,
+): NormalizedSig {
+  const { weightBasedDose, frequencyPerDay } = normalizedSig;
+  if (
+    !weightBasedDose ||
+    patientWeightKg === undefined ||
+    !(patientWeightKg > 0)
+  ) {
+    return normalizedSig;
+  }
+
+  const amountPerKg =
+    weightBasedDose.per === "day"
+      ? frequencyPerDay !== undefined && frequencyPerDay > 0
+        ? weightBasedDose.amount / frequencyPerDay
+        : undefined
+      : weightBasedDose.amount;
+  if (amountPerKg === undefined) {
+    return { ...normalizedSig, patientWeightKg };
+  }
+
+  return {
+    ...normalizedSig,
+    dose: amountPerKg * patientWeightKg,
+    doseUnit: weightBasedDose.unit,
+    patientWeightKg,
+  };
+}
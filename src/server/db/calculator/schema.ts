@@ -28,6 +28,13 @@ export const calculations = createCalculatorTable(
     selectedNdcJson: d.jsonb("selected_ndc_json"),
     quantityValue: d.numeric("quantity_value"),
     quantityUnit: d.text("quantity_unit"),
+    calculationType: d
+      .text("calculation_type")
+      .$type<"quantity" | "daysSupply">()
+      .notNull()
+      .default("quantity"),
+    daysSupplyValue: d.numeric("days_supply_value"),
+    dispenseQuantityValue: d.numeric("dispense_quantity_value"),
     warningsJson: d.jsonb("warnings_json"),
     aiNotes: d.text("ai_notes"),
     userId: d.uuid("user_id"),